@@ -0,0 +1,152 @@
+// Runs the requests this app makes through a fresh Daydream emulator and
+// checks the answers, including that stream outputs can be fetched for playback.
+//
+//   npm run check:daydream
+//
+// Exits non-zero when any check fails.
+import { spawn } from "child_process";
+import { createServer } from "net";
+import { fileURLToPath } from "url";
+import assert from "assert/strict";
+
+function freePort() {
+  return new Promise((resolve, reject) => {
+    const probe = createServer();
+    probe.on("error", reject);
+    probe.listen(0, () => {
+      const { port } = probe.address();
+      probe.close(() => resolve(port));
+    });
+  });
+}
+
+function startEmulator(port, env = {}) {
+  const child = spawn(process.execPath, [fileURLToPath(new URL("./daydream-emulator.js", import.meta.url))], {
+    env: { ...process.env, EMULATOR_PORT: String(port), EMULATOR_LATENCY_MS: "0", ...env },
+    stdio: ["ignore", "pipe", "inherit"],
+  });
+  return new Promise((resolve, reject) => {
+    child.on("exit", (code) => reject(new Error(`Emulator exited with code ${code}`)));
+    child.stdout.on("data", (chunk) => {
+      if (String(chunk).includes("listening on")) resolve(child);
+    });
+  });
+}
+
+async function call(base, method, path, body) {
+  const res = await fetch(`${base}${path}`, {
+    method,
+    headers: typeof body === "string" ? { "Content-Type": "application/sdp" } : { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : typeof body === "string" ? body : JSON.stringify(body),
+  });
+  const type = res.headers.get("Content-Type") ?? "";
+  const data = type.includes("json") ? await res.json() : Buffer.from(await res.arrayBuffer());
+  return { status: res.status, type, headers: res.headers, data };
+}
+
+// Every file the playlist at `url` refers to is served with a media type
+async function checkPlaylist(base, url) {
+  const path = new URL(url).pathname;
+  const playlist = await call(base, "GET", path);
+  assert.equal(playlist.status, 200, `${path} is served`);
+  assert.equal(playlist.type, "application/vnd.apple.mpegurl");
+  const text = playlist.data.toString("utf8");
+  const files = [...text.matchAll(/URI="([^"]+)"/g)].map((m) => m[1]);
+  files.push(...text.split("\n").filter((line) => line && !line.startsWith("#")));
+  assert.ok(files.length > 1, `${path} lists its init file and segments`);
+  for (const file of files) {
+    const media = await call(base, "GET", new URL(file, url).pathname);
+    assert.equal(media.status, 200, `${file} of ${path} is served`);
+    assert.match(media.type, /^video\//);
+    assert.ok(media.data.length > 0);
+  }
+}
+
+const checks = [
+  ["streams can be created, read, updated and deleted", async (base) => {
+    const created = await call(base, "POST", "/v1/streams", { pipeline_id: "pip_test", params: { prompt: "a" } });
+    assert.equal(created.status, 201);
+    assert.ok(created.data.whip_url.startsWith(base));
+    const { id } = created.data;
+    assert.equal((await call(base, "GET", `/v1/streams/${id}`)).data.id, id);
+    const updated = await call(base, "PATCH", `/v1/streams/${id}`, { params: { prompt: "b" } });
+    assert.equal(updated.data.params.prompt, "b");
+    assert.equal((await call(base, "DELETE", `/v1/streams/${id}`)).status, 204);
+    assert.equal((await call(base, "GET", `/v1/streams/${id}`)).status, 404);
+  }],
+  ["a stream's playback id plays", async (base) => {
+    const { data } = await call(base, "POST", "/v1/streams", { pipeline_id: "pip_test" });
+    await checkPlaylist(base, `${base}/hls/${data.output_playback_id}/index.m3u8`);
+  }],
+  ["prompts succeed after polling, with the same output for the same prompt", async (base) => {
+    const { data: stream } = await call(base, "POST", "/v1/streams", { pipeline_id: "pip_test" });
+    const outputFor = async (text) => {
+      const { data: prompt } = await call(base, "POST", `/beta/streams/${stream.id}/prompts`, { params: { prompt: text } });
+      for (let poll = 0; poll < 10; poll++) {
+        const { data } = await call(base, "GET", `/beta/streams/${stream.id}/prompts/${prompt.id}`);
+        if (data.status === "succeeded") return data.output_rtmp_url;
+        assert.equal(data.status, "running");
+      }
+      assert.fail("prompt never succeeded");
+    };
+    const url = await outputFor("a river");
+    assert.equal(await outputFor("a river"), url);
+    assert.notEqual(await outputFor("a forest"), url);
+    await checkPlaylist(base, url);
+  }],
+  ["oneshot returns an image that is served", async (base) => {
+    const { status, data } = await call(base, "POST", "/v1/oneshot", {
+      pipeline: "oneshot",
+      model_id: "model",
+      params: { prompt: "a cat", seed: 1 },
+    });
+    assert.equal(status, 200);
+    const { pathname, search } = new URL(data.outputs[0].url);
+    const image = await call(base, "GET", `${pathname}${search}`);
+    assert.equal(image.type, "image/svg+xml");
+    assert.match(image.data.toString("utf8"), /a cat/);
+  }],
+  ["whip answers an SDP offer", async (base) => {
+    const { data: stream } = await call(base, "POST", "/v1/streams", { pipeline_id: "pip_test" });
+    const offer = "v=0\r\nm=video 9 UDP/TLS/RTP/SAVPF 96\r\na=mid:0\r\na=rtpmap:96 VP8/90000\r\n";
+    const answer = await call(base, "POST", `/whip/${stream.id}`, offer);
+    assert.equal(answer.status, 201);
+    assert.match(answer.data.toString("utf8"), /^v=0/);
+    assert.equal(answer.headers.get("Location"), `/whip/${stream.id}/session`);
+  }],
+];
+
+const failureChecks = [
+  ["EMULATOR_FAIL_ENDPOINTS fails the listed endpoints with EMULATOR_FAILURE_STATUS", async (base) => {
+    assert.equal((await call(base, "POST", "/v1/oneshot", { params: { prompt: "a" } })).status, 502);
+    assert.equal((await call(base, "POST", "/v1/streams", { pipeline_id: "pip_test" })).status, 201);
+  }],
+];
+
+// Checks grouped by the emulator settings they run against
+const suites = [
+  [{}, checks],
+  [{ EMULATOR_FAIL_ENDPOINTS: "oneshot", EMULATOR_FAILURE_STATUS: "502" }, failureChecks],
+];
+
+let failed = false;
+for (const [env, suite] of suites) {
+  const port = await freePort();
+  const emulator = await startEmulator(port, env);
+  try {
+    for (const [name, run] of suite) {
+      try {
+        await run(`http://localhost:${port}`);
+        console.log(`ok      ${name}`);
+      } catch (err) {
+        failed = true;
+        console.log(`FAILED  ${name}\n        ${err.message}`);
+      }
+    }
+  } finally {
+    emulator.removeAllListeners("exit");
+    emulator.kill();
+  }
+}
+
+process.exitCode = failed ? 1 : 0;
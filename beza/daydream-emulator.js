@@ -0,0 +1,296 @@
+// Local stand-in for the parts of the Daydream API this app uses, so AI flows
+// can be developed without network access or an API key.
+//
+//   DAYDREAM_API_URL=http://localhost:4010 npm run dev   (with `npm run dev:daydream`)
+//
+// Outputs are deterministic: the same prompt always gives the same stream
+// output URL and the same image. Prompt outputs and stream playback ids both
+// play the same short HLS clip from fixtures/daydream-output; for playback ids set
+//   NEXT_PUBLIC_HLS_PLAYBACK_URL=http://localhost:4010/hls/{playbackId}/index.m3u8
+// `npm run check:daydream` runs every endpoint against a fresh emulator. Tune with:
+//   EMULATOR_PORT            port to listen on (4010)
+//   EMULATOR_LATENCY_MS      delay added to every response (250)
+//   EMULATOR_FAILURE_RATE    chance between 0 and 1 that a request fails (0)
+//   EMULATOR_FAIL_ENDPOINTS  comma-separated endpoints that always fail, e.g. "oneshot,prompt-poll"
+//                            (stream-create, stream-get, stream-update, stream-delete,
+//                            prompt, prompt-poll, oneshot, outputs, whip)
+//   EMULATOR_FAILURE_STATUS  HTTP status of injected failures (503)
+//   EMULATOR_PROMPT_POLLS    polls before a prompt succeeds (2)
+import { createServer } from "http";
+import { createHash, randomBytes } from "crypto";
+import { readFile } from "fs/promises";
+import { fileURLToPath } from "url";
+
+const PORT = Number(process.env.EMULATOR_PORT ?? 4010);
+const LATENCY = Number(process.env.EMULATOR_LATENCY_MS ?? 250);
+const FAILURE_RATE = Number(process.env.EMULATOR_FAILURE_RATE ?? 0);
+const FAILURE_STATUS = Number(process.env.EMULATOR_FAILURE_STATUS ?? 503);
+const FAIL_ENDPOINTS = new Set(
+  (process.env.EMULATOR_FAIL_ENDPOINTS ?? "").split(",").map((s) => s.trim()).filter(Boolean)
+);
+const PROMPT_POLLS = Number(process.env.EMULATOR_PROMPT_POLLS ?? 2);
+const BASE_URL = process.env.EMULATOR_PUBLIC_URL ?? `http://localhost:${PORT}`;
+const FIXTURE_DIR = new URL("./fixtures/daydream-output/", import.meta.url);
+
+// streamId -> stream, and `${streamId}/${promptId}` -> prompt
+const streams = new Map();
+const prompts = new Map();
+let nextId = 1;
+
+const hash = (value) => createHash("sha256").update(String(value)).digest("hex");
+const makeId = (prefix) => `${prefix}_emu${String(nextId++).padStart(6, "0")}`;
+const now = () => new Date().toISOString();
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, PATCH, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers": "Authorization, Content-Type",
+  "Access-Control-Expose-Headers": "Location",
+};
+
+const MEDIA_TYPES = {
+  m3u8: "application/vnd.apple.mpegurl",
+  mp4: "video/mp4",
+  m4s: "video/iso.segment",
+};
+
+function send(res, status, body, headers = {}) {
+  const isRaw = typeof body === "string" || Buffer.isBuffer(body);
+  res.writeHead(status, {
+    ...CORS_HEADERS,
+    ...(body === undefined ? {} : { "Content-Type": isRaw ? "text/plain" : "application/json" }),
+    ...headers,
+  });
+  res.end(body === undefined ? undefined : isRaw ? body : JSON.stringify(body));
+}
+
+async function sendFixture(res, name) {
+  let body;
+  try {
+    body = await readFile(fileURLToPath(new URL(name, FIXTURE_DIR)));
+  } catch (err) {
+    if (err.code === "ENOENT") return send(res, 404, { error: `No output file ${name}` });
+    throw err;
+  }
+  send(res, 200, body, { "Content-Type": MEDIA_TYPES[name.split(".").pop()] });
+}
+
+async function readBody(req) {
+  const chunks = [];
+  for await (const chunk of req) chunks.push(chunk);
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+async function readJson(req) {
+  const raw = await readBody(req);
+  return raw ? JSON.parse(raw) : {};
+}
+
+function shouldFail(endpoint) {
+  return FAIL_ENDPOINTS.has(endpoint) || Math.random() < FAILURE_RATE;
+}
+
+function streamResponse(stream) {
+  return {
+    ...stream,
+    whip_url: `${BASE_URL}/whip/${stream.id}`,
+    output_playback_id: hash(stream.id).slice(0, 16),
+  };
+}
+
+// Solid colour picked from the prompt, with the prompt written on it
+function renderImage(prompt) {
+  const digest = hash(prompt);
+  const hue = parseInt(digest.slice(0, 4), 16) % 360;
+  const text = String(prompt).replace(/[<>&"]/g, "").slice(0, 60);
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="512" height="512" viewBox="0 0 512 512">
+  <rect width="512" height="512" fill="hsl(${hue}, 70%, 55%)"/>
+  <text x="256" y="256" font-family="sans-serif" font-size="20" fill="white" text-anchor="middle">${text}</text>
+</svg>`;
+}
+
+// A syntactically valid answer that mirrors the offer's media sections. It
+// lets the browser complete the WHIP exchange; no media is actually received.
+function answerSdp(offer) {
+  const lines = offer.split(/\r?\n/);
+  const sections = [];
+  let current = null;
+  for (const line of lines) {
+    if (line.startsWith("m=")) {
+      current = { m: line, attrs: [] };
+      sections.push(current);
+    } else if (current && (/^a=(mid|rtpmap|fmtp|rtcp-fb|extmap):/.test(line) || line === "a=rtcp-mux")) {
+      current.attrs.push(line);
+    }
+  }
+  const ufrag = randomBytes(4).toString("hex");
+  const pwd = randomBytes(12).toString("hex");
+  const fingerprint = createHash("sha256").update(ufrag).digest("hex").toUpperCase().match(/../g).join(":");
+  const bundle = sections
+    .map((s) => s.attrs.find((a) => a.startsWith("a=mid:"))?.slice(6))
+    .filter(Boolean);
+  return [
+    "v=0",
+    `o=- ${Date.now()} 2 IN IP4 127.0.0.1`,
+    "s=-",
+    "t=0 0",
+    ...(bundle.length ? [`a=group:BUNDLE ${bundle.join(" ")}`] : []),
+    ...sections.flatMap((s) => [
+      s.m.replace(/^(m=\S+) \d+/, "$1 9"),
+      "c=IN IP4 0.0.0.0",
+      `a=ice-ufrag:${ufrag}`,
+      `a=ice-pwd:${pwd}`,
+      `a=fingerprint:sha-256 ${fingerprint}`,
+      "a=setup:passive",
+      "a=recvonly",
+      ...s.attrs,
+    ]),
+    "",
+  ].join("\r\n");
+}
+
+const routes = [
+  {
+    method: "POST", path: /^\/v1\/streams$/, endpoint: "stream-create",
+    handle: async (req, res) => {
+      const { pipeline_id, params } = await readJson(req);
+      if (!pipeline_id) return send(res, 400, { error: "pipeline_id is required" });
+      const stream = {
+        id: makeId("str"),
+        pipeline_id,
+        params: params ?? {},
+        status: "running",
+        created_at: now(),
+        updated_at: now(),
+      };
+      streams.set(stream.id, stream);
+      send(res, 201, streamResponse(stream));
+    },
+  },
+  {
+    method: "GET", path: /^\/v1\/streams\/([^/]+)$/, endpoint: "stream-get",
+    handle: async (_req, res, [id]) => {
+      const stream = streams.get(id);
+      if (!stream) return send(res, 404, { error: "Stream not found" });
+      send(res, 200, streamResponse(stream));
+    },
+  },
+  {
+    method: "PATCH", path: /^\/v1\/streams\/([^/]+)$/, endpoint: "stream-update",
+    handle: async (req, res, [id]) => {
+      const stream = streams.get(id);
+      if (!stream) return send(res, 404, { error: "Stream not found" });
+      const { params } = await readJson(req);
+      stream.params = { ...stream.params, ...params };
+      stream.updated_at = now();
+      send(res, 200, streamResponse(stream));
+    },
+  },
+  {
+    method: "DELETE", path: /^\/v1\/streams\/([^/]+)$/, endpoint: "stream-delete",
+    handle: async (_req, res, [id]) => {
+      if (!streams.delete(id)) return send(res, 404, { error: "Stream not found" });
+      send(res, 204);
+    },
+  },
+  {
+    method: "POST", path: /^\/beta\/streams\/([^/]+)\/prompts$/, endpoint: "prompt",
+    handle: async (req, res, [streamId]) => {
+      if (!streams.has(streamId)) return send(res, 404, { error: "Stream not found" });
+      const { params } = await readJson(req);
+      if (!params?.prompt) return send(res, 400, { error: "params.prompt is required" });
+      const prompt = { id: makeId("prm"), stream_id: streamId, params, polls: 0, created_at: now() };
+      prompts.set(`${streamId}/${prompt.id}`, prompt);
+      send(res, 201, { id: prompt.id, status: "queued", created_at: prompt.created_at });
+    },
+  },
+  {
+    method: "GET", path: /^\/beta\/streams\/([^/]+)\/prompts\/([^/]+)$/, endpoint: "prompt-poll",
+    handle: async (_req, res, [streamId, promptId]) => {
+      const prompt = prompts.get(`${streamId}/${promptId}`);
+      if (!prompt) return send(res, 404, { error: "Prompt not found" });
+      prompt.polls += 1;
+      const done = prompt.polls >= PROMPT_POLLS;
+      send(res, 200, {
+        id: prompt.id,
+        status: done ? "succeeded" : "running",
+        created_at: prompt.created_at,
+        ...(done ? { output_rtmp_url: `${BASE_URL}/outputs/${hash(prompt.params.prompt).slice(0, 16)}.m3u8` } : {}),
+      });
+    },
+  },
+  {
+    method: "POST", path: /^\/v1\/oneshot$/, endpoint: "oneshot",
+    handle: async (req, res) => {
+      const { pipeline, model_id, params } = await readJson(req);
+      if (!params?.prompt) return send(res, 400, { error: "params.prompt is required" });
+      const key = hash(`${params.prompt}|${params.image ? hash(params.image) : ""}|${params.seed ?? ""}`).slice(0, 16);
+      send(res, 200, {
+        id: makeId("one"),
+        pipeline,
+        model_id,
+        status: "succeeded",
+        created_at: now(),
+        updated_at: now(),
+        outputs: [{ id: key, url: `${BASE_URL}/outputs/${key}.svg?prompt=${encodeURIComponent(params.prompt)}`, mime_type: "image/svg+xml" }],
+      });
+    },
+  },
+  {
+    method: "GET", path: /^\/outputs\/([^/]+)\.svg$/, endpoint: "outputs",
+    handle: async (req, res) => {
+      const prompt = new URL(req.url, BASE_URL).searchParams.get("prompt") ?? "";
+      send(res, 200, renderImage(prompt), { "Content-Type": "image/svg+xml" });
+    },
+  },
+  {
+    // Playlist of a prompt's stream output, or of a stream's playback id. The
+    // playlist's media paths are relative, so both serve the same files below.
+    method: "GET", path: /^\/(?:outputs\/[^/]+|hls\/[^/]+\/index)\.m3u8$/, endpoint: "outputs",
+    handle: async (_req, res) => sendFixture(res, "output.m3u8"),
+  },
+  {
+    method: "GET", path: /^\/(?:outputs|hls\/[^/]+)\/(init\.mp4|output\d+\.m4s)$/, endpoint: "outputs",
+    handle: async (_req, res, [name]) => sendFixture(res, name),
+  },
+  {
+    method: "POST", path: /^\/whip\/([^/]+)$/, endpoint: "whip",
+    handle: async (req, res, [streamId]) => {
+      if (!streams.has(streamId)) return send(res, 404, "Stream not found");
+      const offer = await readBody(req);
+      if (!offer.startsWith("v=0")) return send(res, 400, "Expected an SDP offer");
+      send(res, 201, answerSdp(offer), {
+        "Content-Type": "application/sdp",
+        Location: `/whip/${streamId}/session`,
+      });
+    },
+  },
+  {
+    method: "DELETE", path: /^\/whip\/([^/]+)\/session$/, endpoint: "whip",
+    handle: async (_req, res) => send(res, 200),
+  },
+];
+
+const server = createServer(async (req, res) => {
+  if (req.method === "OPTIONS") return send(res, 204);
+  const { pathname } = new URL(req.url, BASE_URL);
+  const route = routes.find((r) => r.method === req.method && r.path.test(pathname));
+  console.log(`${req.method} ${pathname}`);
+
+  await sleep(LATENCY);
+  if (!route) return send(res, 404, { error: `No emulated endpoint for ${req.method} ${pathname}` });
+  if (shouldFail(route.endpoint)) {
+    return send(res, FAILURE_STATUS, { error: `Emulated ${route.endpoint} failure` });
+  }
+  try {
+    await route.handle(req, res, pathname.match(route.path).slice(1).map(decodeURIComponent));
+  } catch (err) {
+    console.error(err);
+    send(res, 400, { error: err instanceof Error ? err.message : "Bad request" });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Daydream emulator listening on ${BASE_URL}`);
+});
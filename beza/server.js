@@ -1,5 +1,11 @@
 import { createServer } from "http";
 import { Server } from "socket.io";
+import {
+  getRoomAccess,
+  isValidRoomId,
+  roleForToken,
+  rotateRoomToken,
+} from "./src/lib/room-access.js";
 
 const server = createServer();
 const io = new Server(server, {
@@ -7,13 +13,174 @@ const io = new Server(server, {
     origin: process.env.CLIENT_URL || "http://localhost:3000",
     methods: ["GET", "POST"],
   },
+  maxHttpBufferSize: 1e7,
 });
 
+// Live document of every active room, keyed by roomId.
+// records: Map<recordId, TLRecord>, clock: number of diffs applied so far.
+const rooms = new Map();
+
+function getRoom(roomId) {
+  let room = rooms.get(roomId);
+  if (!room) {
+    room = { records: new Map(), clock: 0 };
+    rooms.set(roomId, room);
+  }
+  return room;
+}
+
+// Diffs are applied in the order they arrive, one record at a time, so the last
+// writer wins. An update to a record someone else removed puts it back.
+function applyDiff(room, diff) {
+  for (const record of [...(diff.added ?? []), ...(diff.updated ?? [])]) {
+    room.records.set(record.id, record);
+  }
+  for (const id of diff.removed ?? []) {
+    room.records.delete(id);
+  }
+  room.clock += 1;
+  return room.clock;
+}
+
+function getParticipants(roomId) {
+  const socketIds = io.sockets.adapter.rooms.get(roomId) ?? new Set();
+  return [...socketIds]
+    .map((id) => io.sockets.sockets.get(id)?.data.user)
+    .filter(Boolean);
+}
+
 io.on("connection", (socket) => {
   console.log("Client connected:", socket.id);
-  socket.on("joinSession", (roomId) => {
+  // `token` is the edit or view token from the link. `user` is { name, color };
+  // sockets joining without one are not listed as participants.
+  socket.on("joinSession", async (roomId, { token, user } = {}) => {
+    if (!isValidRoomId(roomId)) {
+      socket.emit("accessDenied", { reason: "Invalid board link" });
+      return;
+    }
+    let access;
+    try {
+      access = await getRoomAccess(roomId);
+    } catch (err) {
+      console.error("Failed to check room access:", err);
+      socket.emit("accessDenied", { reason: "Could not check access to this board" });
+      return;
+    }
+    // Rooms only exist once POST /api/boards has minted their tokens
+    if (!access) {
+      socket.emit("accessDenied", { reason: "This board does not exist" });
+      return;
+    }
+    const role = roleForToken(access, token);
+    if (!role) {
+      socket.emit("accessDenied", { reason: "This link is invalid or has been revoked" });
+      return;
+    }
+
     socket.join(roomId);
-    console.log(`Socket ${socket.id} joined room ${roomId}`);
+    socket.data.roomId = roomId;
+    socket.data.role = role;
+    socket.data.token = token ?? null;
+    socket.emit("sessionRole", role);
+    console.log(`Socket ${socket.id} joined room ${roomId} (${role})`);
+
+    if (user && role === "edit") {
+      socket.data.user = { id: socket.id, name: user.name, color: user.color };
+      socket.to(roomId).emit("participantJoined", socket.data.user);
+    }
+    socket.emit("participants", getParticipants(roomId));
+
+    const room = getRoom(roomId);
+    socket.emit("documentState", {
+      clock: room.clock,
+      records: [...room.records.values()],
+    });
+  });
+
+  socket.on("storeDiff", ({ seq, diff } = {}) => {
+    const roomId = socket.data.roomId;
+    if (!roomId || !diff) return;
+    if (socket.data.role !== "edit") {
+      socket.emit("writeRejected", { seq, reason: "This link can only view the board" });
+      return;
+    }
+    const clock = applyDiff(getRoom(roomId), diff);
+    // Sent to the whole room, sender included, so it can acknowledge its own diff.
+    io.to(roomId).emit("storeDiff", { seq, diff, clock, origin: socket.id });
+  });
+
+  // Pages added, renamed, deleted or moved. The pages themselves are saved through
+  // /api/boards; the others only need the new list, which is passed on as it is.
+  socket.on("pageList", ({ pages } = {}) => {
+    const roomId = socket.data.roomId;
+    if (!roomId || socket.data.role !== "edit" || !Array.isArray(pages)) return;
+    socket.to(roomId).emit("pageList", { pages });
+  });
+
+  socket.on("updateParticipant", ({ name, color } = {}) => {
+    const { roomId, user } = socket.data;
+    if (!roomId || !user) return;
+    socket.data.user = { ...user, name: name ?? user.name, color: color ?? user.color };
+    io.to(roomId).emit("participantUpdated", socket.data.user);
+  });
+
+  // Cursor, selection and camera; only the latest one matters, so drop it if the socket is busy
+  socket.on("presence", (presence) => {
+    const roomId = socket.data.roomId;
+    if (!roomId || !socket.data.user) return;
+    socket.volatile.to(roomId).emit("presence", presence);
+  });
+
+  // Share links are only handed out to editors
+  socket.on("getShareLinks", async (ack) => {
+    const { roomId, role } = socket.data;
+    if (typeof ack !== "function") return;
+    if (!roomId || role !== "edit") return ack({ error: "Only editors can share this board" });
+    try {
+      // Never minted here: that would lock out everyone already on the board
+      const access = await getRoomAccess(roomId);
+      ack(access ?? { error: "This board has no share links" });
+    } catch (err) {
+      console.error("Failed to load share links:", err);
+      ack({ error: "Could not load share links" });
+    }
+  });
+
+  // Replace one token and disconnect everyone who joined with the old one
+  socket.on("revokeShareLink", async ({ role: revokedRole } = {}, ack) => {
+    const { roomId, role } = socket.data;
+    if (typeof ack !== "function") return;
+    if (!roomId || role !== "edit") return ack({ error: "Only editors can revoke links" });
+    if (revokedRole !== "edit" && revokedRole !== "view") return ack({ error: "Unknown link" });
+    try {
+      const previous = await getRoomAccess(roomId);
+      const next = await rotateRoomToken(roomId, revokedRole);
+      const oldToken = previous?.[revokedRole === "edit" ? "editToken" : "viewToken"];
+      for (const other of await io.in(roomId).fetchSockets()) {
+        if (other.id === socket.id || !oldToken || other.data.token !== oldToken) continue;
+        other.emit("accessDenied", { reason: "This link has been revoked" });
+        other.disconnect(true);
+      }
+      // The editor who revoked keeps access through the new edit link
+      if (revokedRole === "edit") socket.data.token = next.editToken;
+      ack(next);
+    } catch (err) {
+      console.error("Failed to revoke share link:", err);
+      ack({ error: "Could not revoke the link" });
+    }
+  });
+
+  socket.on("disconnecting", () => {
+    const roomId = socket.data.roomId;
+    if (!roomId) return;
+    if (socket.data.user) {
+      socket.to(roomId).emit("participantLeft", socket.data.user);
+    }
+    const remaining = (io.sockets.adapter.rooms.get(roomId)?.size ?? 1) - 1;
+    if (remaining === 0) {
+      rooms.delete(roomId);
+      console.log(`Room ${roomId} is empty, dropped its document`);
+    }
   });
 });
 
@@ -0,0 +1,64 @@
+import { ApiError } from "@/lib/api-errors";
+import { apiErrorResponse } from "@/lib/api-response";
+import { assetMimeType, getBoardAssetSize, isValidAssetId, readBoardAsset } from "@/lib/board-assets";
+import { isValidRoomId } from "@/lib/board-storage";
+
+type RouteContext = { params: Promise<{ roomId: string; assetId: string }> };
+
+type ByteRange = { start: number; end: number };
+
+// Browsers seek in a video by asking for one range at a time. Anything else,
+// including several ranges, is answered with the whole file as HTTP allows.
+function parseRange(header: string | null, size: number): ByteRange | "unsatisfiable" | null {
+  const match = header?.match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (!match[1] && !match[2])) return null;
+  // "bytes=-500" is the last 500 bytes
+  if (!match[1]) {
+    const length = Number(match[2]);
+    return length === 0 ? "unsatisfiable" : { start: Math.max(0, size - length), end: size - 1 };
+  }
+  const start = Number(match[1]);
+  const end = match[2] ? Number(match[2]) : Infinity;
+  if (end < start) return null;
+  if (start >= size) return "unsatisfiable";
+  return { start, end: Math.min(end, size - 1) };
+}
+
+// No token check: <video> cannot send the token header, and asset ids are
+// random UUIDs that are only known from the board itself
+export async function GET(req: Request, { params }: RouteContext) {
+  try {
+    const { roomId, assetId } = await params;
+    if (!isValidRoomId(roomId) || !isValidAssetId(assetId)) {
+      throw new ApiError("bad_request", "Invalid asset");
+    }
+
+    const size = await getBoardAssetSize(roomId, assetId);
+    if (size === null) {
+      throw new ApiError("not_found", "Asset not found");
+    }
+
+    const headers = {
+      "Content-Type": assetMimeType(assetId),
+      "Accept-Ranges": "bytes",
+      // Ids are never reused, so the file never changes
+      "Cache-Control": "private, max-age=31536000, immutable",
+    };
+    const range = parseRange(req.headers.get("range"), size);
+    if (range === "unsatisfiable") {
+      return new Response(null, { status: 416, headers: { ...headers, "Content-Range": `bytes */${size}` } });
+    }
+
+    const { start, end } = range ?? { start: 0, end: size - 1 };
+    return new Response(readBoardAsset(roomId, assetId, start, end), {
+      status: range ? 206 : 200,
+      headers: {
+        ...headers,
+        "Content-Length": String(end - start + 1),
+        ...(range ? { "Content-Range": `bytes ${start}-${end}/${size}` } : {}),
+      },
+    });
+  } catch (error) {
+    return apiErrorResponse(error);
+  }
+}
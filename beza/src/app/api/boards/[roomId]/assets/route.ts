@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { ApiError } from "@/lib/api-errors";
+import { apiErrorResponse } from "@/lib/api-response";
+import { isAllowedAssetType, MAX_ASSET_BYTES, writeBoardAsset } from "@/lib/board-assets";
+import { isValidRoomId } from "@/lib/board-storage";
+import { requireRoomRole } from "@/lib/room-auth";
+
+type RouteContext = { params: Promise<{ roomId: string }> };
+
+// Upload a file for the board; the body is the raw file
+export async function POST(req: Request, { params }: RouteContext) {
+  try {
+    const { roomId } = await params;
+    if (!isValidRoomId(roomId)) {
+      throw new ApiError("bad_request", "Invalid roomId");
+    }
+
+    await requireRoomRole(req, roomId, "edit");
+
+    // Drop parameters such as ";codecs=vp9,opus"
+    const mimeType = (req.headers.get("content-type") ?? "").split(";")[0].trim();
+    if (!isAllowedAssetType(mimeType)) {
+      throw new ApiError("bad_request", `Unsupported file type: ${mimeType || "none"}`);
+    }
+    if (Number(req.headers.get("content-length") ?? 0) > MAX_ASSET_BYTES) {
+      throw new ApiError("bad_request", "File is too large");
+    }
+
+    if (!req.body) {
+      throw new ApiError("bad_request", "File is empty");
+    }
+
+    // Streamed to disk; the size is checked again as it arrives
+    const assetId = await writeBoardAsset(roomId, req.body, mimeType);
+    const url = `/api/boards/${encodeURIComponent(roomId)}/assets/${assetId}`;
+    return NextResponse.json({ id: assetId, url }, { status: 201 });
+  } catch (error) {
+    return apiErrorResponse(error);
+  }
+}
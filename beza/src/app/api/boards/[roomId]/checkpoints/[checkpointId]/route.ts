@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { ApiError } from "@/lib/api-errors";
+import { apiErrorResponse } from "@/lib/api-response";
+import { isValidCheckpointId, readCheckpoint } from "@/lib/board-checkpoints";
+import { isValidRoomId } from "@/lib/board-storage";
+import { requireRoomRole } from "@/lib/room-auth";
+
+type RouteContext = { params: Promise<{ roomId: string; checkpointId: string }> };
+
+export async function GET(req: Request, { params }: RouteContext) {
+  try {
+    const { roomId, checkpointId } = await params;
+    if (!isValidRoomId(roomId) || !isValidCheckpointId(checkpointId)) {
+      throw new ApiError("bad_request", "Invalid checkpoint");
+    }
+
+    await requireRoomRole(req, roomId, "view");
+
+    const checkpoint = await readCheckpoint(roomId, checkpointId);
+    if (!checkpoint) {
+      throw new ApiError("not_found", "Checkpoint not found");
+    }
+
+    return NextResponse.json(checkpoint);
+  } catch (error) {
+    return apiErrorResponse(error);
+  }
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { ApiError } from "@/lib/api-errors";
+import { apiErrorResponse, readRequest } from "@/lib/api-response";
+import { createCheckpoint, createCheckpointRequest, listCheckpoints } from "@/lib/board-checkpoints";
+import { isValidRoomId } from "@/lib/board-storage";
+import { requireRoomRole } from "@/lib/room-auth";
+
+type RouteContext = { params: Promise<{ roomId: string }> };
+
+// Checkpoints of the board, newest first; `?pageId=` limits them to one page
+export async function GET(req: Request, { params }: RouteContext) {
+  try {
+    const { roomId } = await params;
+    if (!isValidRoomId(roomId)) {
+      throw new ApiError("bad_request", "Invalid roomId");
+    }
+
+    await requireRoomRole(req, roomId, "view");
+
+    const pageId = new URL(req.url).searchParams.get("pageId") ?? undefined;
+    return NextResponse.json(await listCheckpoints(roomId, pageId));
+  } catch (error) {
+    return apiErrorResponse(error);
+  }
+}
+
+export async function POST(req: Request, { params }: RouteContext) {
+  try {
+    const { roomId } = await params;
+    if (!isValidRoomId(roomId)) {
+      throw new ApiError("bad_request", "Invalid roomId");
+    }
+
+    await requireRoomRole(req, roomId, "edit");
+
+    const checkpoint = await createCheckpoint(roomId, await readRequest(req, createCheckpointRequest));
+    return NextResponse.json(checkpoint, { status: 201 });
+  } catch (error) {
+    return apiErrorResponse(error);
+  }
+}
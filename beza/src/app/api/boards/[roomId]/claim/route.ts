@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { ApiError } from "@/lib/api-errors";
+import { apiErrorResponse } from "@/lib/api-response";
+import { isValidRoomId } from "@/lib/board-storage";
+import { createRoomAccess } from "@/lib/room-access";
+
+type RouteContext = { params: Promise<{ roomId: string }> };
+
+// Boards saved before share links existed have no tokens, and anyone with their
+// link could edit them. The first editor to open one again mints its tokens;
+// from then on it needs a link like any other board.
+export async function POST(_req: Request, { params }: RouteContext) {
+  try {
+    const { roomId } = await params;
+    if (!isValidRoomId(roomId)) {
+      throw new ApiError("bad_request", "Invalid roomId");
+    }
+
+    const access = await createRoomAccess(roomId);
+    if (!access) {
+      throw new ApiError("forbidden", "This board has already been claimed; ask its owner for a link");
+    }
+
+    return NextResponse.json({ roomId, ...access }, { status: 201 });
+  } catch (error) {
+    return apiErrorResponse(error);
+  }
+}
@@ -0,0 +1,73 @@
+import { NextResponse } from "next/server";
+import type { TLEditorSnapshot } from "@tldraw/tldraw";
+import { ApiError } from "@/lib/api-errors";
+import { apiErrorResponse, readRequest } from "@/lib/api-response";
+import { isValidRoomId, updateBoard, updatePageRequest } from "@/lib/board-storage";
+import { requireRoomRole } from "@/lib/room-auth";
+import type { PageData } from "@/lib/types";
+
+type RouteContext = { params: Promise<{ roomId: string; pageId: string }> };
+
+// Rename a page or save its content. A page that was deleted is not found,
+// so a late save cannot bring it back.
+export async function PATCH(req: Request, { params }: RouteContext) {
+  try {
+    const { roomId, pageId } = await params;
+    if (!isValidRoomId(roomId)) {
+      throw new ApiError("bad_request", "Invalid roomId");
+    }
+
+    await requireRoomRole(req, roomId, "edit");
+
+    const { name, content } = await readRequest(req, updatePageRequest);
+    const pages = await updateBoard(roomId, (current) =>
+      current.map(
+        (page): PageData =>
+          page.id !== pageId
+            ? page
+            : {
+                ...page,
+                ...(name !== undefined && { name }),
+                ...(content && {
+                  canvasData: content.canvasData as unknown as TLEditorSnapshot,
+                  thumbnail: content.thumbnail ?? undefined,
+                }),
+              }
+      )
+    );
+    const updated = pages?.find((page) => page.id === pageId);
+    if (!updated) {
+      throw new ApiError("not_found", "Page not found");
+    }
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    return apiErrorResponse(error);
+  }
+}
+
+export async function DELETE(req: Request, { params }: RouteContext) {
+  try {
+    const { roomId, pageId } = await params;
+    if (!isValidRoomId(roomId)) {
+      throw new ApiError("bad_request", "Invalid roomId");
+    }
+
+    await requireRoomRole(req, roomId, "edit");
+
+    const pages = await updateBoard(roomId, (current) => {
+      const next = current.filter((page) => page.id !== pageId);
+      if (next.length === 0) {
+        throw new ApiError("bad_request", "A board keeps at least one page");
+      }
+      return next;
+    });
+    if (!pages) {
+      throw new ApiError("not_found", "Board not found");
+    }
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return apiErrorResponse(error);
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { ApiError } from "@/lib/api-errors";
+import { apiErrorResponse, readRequest } from "@/lib/api-response";
+import { addPageRequest, isValidRoomId, updateBoard } from "@/lib/board-storage";
+import { requireRoomRole } from "@/lib/room-auth";
+
+type RouteContext = { params: Promise<{ roomId: string }> };
+
+// Insert a page at `index`; a page with the same id is replaced
+export async function POST(req: Request, { params }: RouteContext) {
+  try {
+    const { roomId } = await params;
+    if (!isValidRoomId(roomId)) {
+      throw new ApiError("bad_request", "Invalid roomId");
+    }
+
+    await requireRoomRole(req, roomId, "edit");
+
+    const { page: added, index } = await readRequest(req, addPageRequest);
+    const pages = await updateBoard(roomId, (current) => {
+      const next = current.filter((p) => p.id !== added.id);
+      next.splice(Math.min(index, next.length), 0, added);
+      return next;
+    });
+    if (!pages) {
+      throw new ApiError("not_found", "Board not found");
+    }
+
+    return NextResponse.json(added, { status: 201 });
+  } catch (error) {
+    return apiErrorResponse(error);
+  }
+}
@@ -0,0 +1,81 @@
+import { NextResponse } from "next/server";
+import { ApiError } from "@/lib/api-errors";
+import { apiErrorResponse, readRequest } from "@/lib/api-response";
+import {
+  isValidRoomId,
+  readBoard,
+  reorderPagesRequest,
+  saveBoardRequest,
+  updateBoard,
+  writeBoard,
+} from "@/lib/board-storage";
+import { requireRoomRole } from "@/lib/room-auth";
+
+type RouteContext = { params: Promise<{ roomId: string }> };
+
+export async function GET(req: Request, { params }: RouteContext) {
+  try {
+    const { roomId } = await params;
+    if (!isValidRoomId(roomId)) {
+      throw new ApiError("bad_request", "Invalid roomId");
+    }
+
+    await requireRoomRole(req, roomId, "view");
+
+    const pages = await readBoard(roomId);
+    if (!pages) {
+      throw new ApiError("not_found", "Board not found");
+    }
+
+    return NextResponse.json(pages);
+  } catch (error) {
+    return apiErrorResponse(error);
+  }
+}
+
+// Replaces the whole board: for new boards, imports and changes made offline.
+// Editors change a board they have loaded one page at a time.
+export async function PUT(req: Request, { params }: RouteContext) {
+  try {
+    const { roomId } = await params;
+    if (!isValidRoomId(roomId)) {
+      throw new ApiError("bad_request", "Invalid roomId");
+    }
+
+    await requireRoomRole(req, roomId, "edit");
+
+    const pages = await readRequest(req, saveBoardRequest);
+    await writeBoard(roomId, pages);
+    return NextResponse.json(pages);
+  } catch (error) {
+    return apiErrorResponse(error);
+  }
+}
+
+// Put the pages in `order`; pages it leaves out keep their order after the listed ones
+export async function PATCH(req: Request, { params }: RouteContext) {
+  try {
+    const { roomId } = await params;
+    if (!isValidRoomId(roomId)) {
+      throw new ApiError("bad_request", "Invalid roomId");
+    }
+
+    await requireRoomRole(req, roomId, "edit");
+
+    const { order } = await readRequest(req, reorderPagesRequest);
+    const position = new Map(order.map((id, index) => [id, index]));
+    const pages = await updateBoard(roomId, (current) =>
+      current
+        .map((page, index) => ({ page, rank: position.get(page.id) ?? order.length + index }))
+        .sort((a, b) => a.rank - b.rank)
+        .map(({ page }) => page)
+    );
+    if (!pages) {
+      throw new ApiError("not_found", "Board not found");
+    }
+
+    return NextResponse.json(pages);
+  } catch (error) {
+    return apiErrorResponse(error);
+  }
+}
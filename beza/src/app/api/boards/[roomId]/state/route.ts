@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import type { JsonObject } from "@tldraw/tldraw";
+import { ApiError } from "@/lib/api-errors";
+import { apiErrorResponse, readRequest } from "@/lib/api-response";
+import { isValidRoomId, readBoardState, updateBoardState, updateBoardStateRequest } from "@/lib/board-storage";
+import { requireRoomRole } from "@/lib/room-auth";
+
+type RouteContext = { params: Promise<{ roomId: string }> };
+
+export async function GET(req: Request, { params }: RouteContext) {
+  try {
+    const { roomId } = await params;
+    if (!isValidRoomId(roomId)) {
+      throw new ApiError("bad_request", "Invalid roomId");
+    }
+
+    await requireRoomRole(req, roomId, "view");
+
+    const state = await readBoardState(roomId);
+    if (!state) {
+      throw new ApiError("not_found", "Board state not found");
+    }
+
+    return NextResponse.json(state);
+  } catch (error) {
+    return apiErrorResponse(error);
+  }
+}
+
+// Only the fields sent are replaced
+export async function PATCH(req: Request, { params }: RouteContext) {
+  try {
+    const { roomId } = await params;
+    if (!isValidRoomId(roomId)) {
+      throw new ApiError("bad_request", "Invalid roomId");
+    }
+
+    await requireRoomRole(req, roomId, "edit");
+
+    const { shownPageId, meta } = await readRequest(req, updateBoardStateRequest);
+    const state = await updateBoardState(roomId, {
+      ...(shownPageId !== undefined && { shownPageId }),
+      ...(meta !== undefined && { meta: meta as JsonObject }),
+    });
+    return NextResponse.json(state);
+  } catch (error) {
+    return apiErrorResponse(error);
+  }
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { v4 as uuidv4 } from "uuid";
+import { ApiError } from "@/lib/api-errors";
+import { apiErrorResponse } from "@/lib/api-response";
+import { createRoomAccess } from "@/lib/room-access";
+
+// Create a board and mint its edit and view tokens
+export async function POST() {
+  try {
+    const roomId = uuidv4();
+    const access = await createRoomAccess(roomId);
+    if (!access) {
+      throw new ApiError("internal", "Board id already in use");
+    }
+    const { editToken, viewToken } = access;
+    return NextResponse.json({ roomId, editToken, viewToken }, { status: 201 });
+  } catch (error) {
+    return apiErrorResponse(error);
+  }
+}
@@ -1,52 +1,46 @@
 import { NextResponse } from "next/server";
+import { ApiError } from "@/lib/api-errors";
+import { apiErrorResponse, readRequest, upstreamError } from "@/lib/api-response";
+import { oneshotRequest } from "@/lib/api-schemas";
+import { daydreamAuthHeaders, daydreamUrl } from "@/lib/daydream-api";
+import { resolveModelId } from "@/lib/pipelines";
 import type { DaydreamOneShotResponse } from "@/lib/types";
 
 export async function POST(req: Request) {
   try {
-    const { prompt, image } = (await req.json()) as {
-      prompt?: string;
-      image?: string;
-    };
+    const { prompt, image, params, ...body } = await readRequest(req, oneshotRequest);
 
-    if (!prompt) {
-      return NextResponse.json({ error: "Missing prompt" }, { status: 400 });
+    const model_id = await resolveModelId(body.model_id);
+    if (!model_id) {
+      throw new ApiError("bad_request", `Unknown model_id: ${body.model_id}`);
     }
 
-    const response = await fetch("https://api.daydream.live/v1/oneshot", {
+    const response = await fetch(daydreamUrl("/v1/oneshot"), {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
-        Authorization: `Bearer ${process.env.DAYDREAM_API_KEY ?? ""}`,
+        ...daydreamAuthHeaders(),
       },
       body: JSON.stringify({
         pipeline: image ? "image-to-image" : "text-to-image",
-        model_id: "streamdiffusion",
+        model_id,
         params: {
-          prompt,
-          ...(image ? { image } : {}),
           guidance_scale: 7.5,
           num_inference_steps: 30,
+          ...params,
+          prompt,
+          ...(image ? { image } : {}),
         },
       }),
     });
 
     if (!response.ok) {
-      const errorText = await response.text();
-      return NextResponse.json(
-        { error: errorText },
-        { status: response.status }
-      );
+      throw await upstreamError(response, { badInputCode: "bad_prompt" });
     }
 
     const result = (await response.json()) as DaydreamOneShotResponse;
     return NextResponse.json(result);
   } catch (error) {
-    if (error instanceof Error) {
-      return NextResponse.json({ error: error.message }, { status: 500 });
-    }
-    return NextResponse.json(
-      { error: "Unknown server error" },
-      { status: 500 }
-    );
+    return apiErrorResponse(error);
   }
 }
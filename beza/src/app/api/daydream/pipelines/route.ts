@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server";
+import { apiErrorResponse } from "@/lib/api-response";
+import { getPipelineRegistry } from "@/lib/pipelines";
+
+// Pipelines and models a board can choose from
+export async function GET() {
+  try {
+    const registry = await getPipelineRegistry();
+    return NextResponse.json(registry);
+  } catch (error) {
+    return apiErrorResponse(error);
+  }
+}
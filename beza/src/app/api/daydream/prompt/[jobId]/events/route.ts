@@ -0,0 +1,65 @@
+import { ApiError } from "@/lib/api-errors";
+import { apiErrorResponse } from "@/lib/api-response";
+import { getPromptJob, isJobFinished, subscribeToPromptJob } from "@/lib/prompt-jobs";
+import type { PromptJob } from "@/lib/types";
+
+type RouteContext = { params: Promise<{ jobId: string }> };
+
+export const dynamic = "force-dynamic";
+
+// Keeps proxies from closing an idle stream while a job is slow
+const HEARTBEAT_INTERVAL = 15_000;
+
+// Server-Sent Events feed of a prompt job. Sends the current state first,
+// then every change, and closes once the job has finished.
+export async function GET(req: Request, { params }: RouteContext) {
+  const { jobId } = await params;
+  const initial = getPromptJob(jobId);
+  if (!initial) {
+    return apiErrorResponse(new ApiError("not_found", "Prompt job not found"));
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup = () => { };
+
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        cleanup();
+        controller.close();
+      };
+      const send = (job: PromptJob) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(job)}\n\n`));
+        if (isJobFinished(job)) close();
+      };
+
+      const unsubscribe = subscribeToPromptJob(jobId, send);
+      const heartbeat = setInterval(() => {
+        if (!closed) controller.enqueue(encoder.encode(": keepalive\n\n"));
+      }, HEARTBEAT_INTERVAL);
+      cleanup = () => {
+        unsubscribe();
+        clearInterval(heartbeat);
+      };
+      req.signal.addEventListener("abort", () => cleanup());
+
+      // Re-read in case the job moved on while the stream was being set up
+      send(getPromptJob(jobId) ?? initial);
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { ApiError } from "@/lib/api-errors";
+import { apiErrorResponse } from "@/lib/api-response";
+import { cancelPromptJob, getPromptJob } from "@/lib/prompt-jobs";
+
+type RouteContext = { params: Promise<{ jobId: string }> };
+
+const notFound = () => apiErrorResponse(new ApiError("not_found", "Prompt job not found"));
+
+// Current state of a prompt job
+export async function GET(_req: Request, { params }: RouteContext) {
+  const { jobId } = await params;
+  const job = getPromptJob(jobId);
+  return job ? NextResponse.json(job) : notFound();
+}
+
+// Cancel a prompt job; finished jobs are returned unchanged
+export async function DELETE(_req: Request, { params }: RouteContext) {
+  const { jobId } = await params;
+  const job = cancelPromptJob(jobId);
+  return job ? NextResponse.json(job) : notFound();
+}
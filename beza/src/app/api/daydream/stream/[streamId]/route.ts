@@ -0,0 +1,73 @@
+import { NextResponse } from "next/server";
+import { apiErrorResponse, readRequest, upstreamError } from "@/lib/api-response";
+import { updateStreamRequest } from "@/lib/api-schemas";
+import { daydreamAuthHeaders, daydreamUrl } from "@/lib/daydream-api";
+import type { DaydreamStreamResponse } from "@/lib/types";
+
+type RouteContext = { params: Promise<{ streamId: string }> };
+
+const streamUrl = (streamId: string) =>
+  daydreamUrl(`/v1/streams/${encodeURIComponent(streamId)}`);
+
+// Current status of a stream
+export async function GET(_req: Request, { params }: RouteContext) {
+  try {
+    const { streamId } = await params;
+    const response = await fetch(streamUrl(streamId), {
+      method: "GET",
+      headers: daydreamAuthHeaders(),
+      cache: "no-store",
+    });
+
+    if (!response.ok) {
+      throw await upstreamError(response);
+    }
+
+    const data = (await response.json()) as DaydreamStreamResponse;
+    return NextResponse.json(data);
+  } catch (error) {
+    return apiErrorResponse(error);
+  }
+}
+
+// Update the prompt and pipeline params of a running stream
+export async function PATCH(req: Request, { params }: RouteContext) {
+  try {
+    const { streamId } = await params;
+    const body = await readRequest(req, updateStreamRequest);
+
+    const response = await fetch(streamUrl(streamId), {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json", ...daydreamAuthHeaders() },
+      body: JSON.stringify({ params: body.params }),
+    });
+
+    if (!response.ok) {
+      throw await upstreamError(response, { badInputCode: "bad_prompt" });
+    }
+
+    const data = (await response.json()) as DaydreamStreamResponse;
+    return NextResponse.json(data);
+  } catch (error) {
+    return apiErrorResponse(error);
+  }
+}
+
+// Stop the stream; already gone counts as stopped
+export async function DELETE(_req: Request, { params }: RouteContext) {
+  try {
+    const { streamId } = await params;
+    const response = await fetch(streamUrl(streamId), {
+      method: "DELETE",
+      headers: daydreamAuthHeaders(),
+    });
+
+    if (!response.ok && response.status !== 404) {
+      throw await upstreamError(response);
+    }
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return apiErrorResponse(error);
+  }
+}
@@ -1,43 +1,42 @@
 import { NextResponse } from "next/server";
+import { ApiError } from "@/lib/api-errors";
+import { apiErrorResponse, readRequest, upstreamError } from "@/lib/api-response";
+import { createStreamRequest } from "@/lib/api-schemas";
+import { daydreamAuthHeaders, daydreamUrl } from "@/lib/daydream-api";
+import { resolvePipelineId } from "@/lib/pipelines";
 import type { DaydreamStreamResponse } from "@/lib/types";
 
 export async function POST(req: Request) {
   try {
-    const { pipeline_id } = (await req.json()) as { pipeline_id?: string };
+    const body = await readRequest(req, createStreamRequest);
+    const pipeline_id = await resolvePipelineId(body.pipeline_id);
 
     if (!pipeline_id) {
-      return NextResponse.json(
-        { error: "Missing pipeline_id" },
-        { status: 400 }
-      );
+      throw new ApiError("bad_request", `Unknown pipeline_id: ${body.pipeline_id}`);
     }
 
-    const response = await fetch("https://api.daydream.live/v1/streams", {
+    // Only send params when there are some, so the pipeline defaults apply otherwise
+    const hasParams = Object.keys(body.params).length > 0;
+
+    const response = await fetch(daydreamUrl("/v1/streams"), {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
-        Authorization: `Bearer ${process.env.DAYDREAM_API_KEY ?? ""}`,
+        ...daydreamAuthHeaders(),
       },
-      body: JSON.stringify({ pipeline_id }),
+      body: JSON.stringify({
+        pipeline_id,
+        ...(hasParams ? { params: body.params } : {}),
+      }),
     });
 
     if (!response.ok) {
-      const errorText = await response.text();
-      return NextResponse.json(
-        { error: errorText },
-        { status: response.status }
-      );
+      throw await upstreamError(response);
     }
 
     const data = (await response.json()) as DaydreamStreamResponse;
     return NextResponse.json(data);
   } catch (error) {
-    if (error instanceof Error) {
-      return NextResponse.json({ error: error.message }, { status: 500 });
-    }
-    return NextResponse.json(
-      { error: "Unknown server error" },
-      { status: 500 }
-    );
+    return apiErrorResponse(error);
   }
 }
@@ -1,29 +1,150 @@
 "use client";
 
 import React, { useCallback, useEffect, useRef, useState } from "react";
-import { useParams } from "next/navigation";
+import { useParams, useRouter, useSearchParams } from "next/navigation";
 import Link from "next/link";
 import io, { Socket } from "socket.io-client";
 import { toast } from "sonner";
-import { Editor, TLShapeId } from "@tldraw/tldraw";
+import {
+    Editor,
+    RecordsDiff,
+    TLInstancePresence,
+    TLRecord,
+    TLShapeId,
+    getSnapshot,
+    type JsonObject,
+    useValue,
+} from "@tldraw/tldraw";
 import {
     Home,
     Sparkles,
     Link as LinkIcon,
     Image as ImageIcon,
+    History,
+    Loader2,
+    Clock,
+    Wand2,
+    X,
 } from "lucide-react";
 import Canvas from "@/components/Canvas";
 import LayersPanel from "@/components/LayersPanel";
 import FloatingCam from "@/components/FloatingCam";
-import type { DaydreamStreamResponse } from "@/lib/types";
+import ParticipantList from "@/components/ParticipantList";
+import ShareDialog, { type ShareLinks } from "@/components/ShareDialog";
+import PipelinePicker from "@/components/PipelinePicker";
+import GenerationSettings from "@/components/GenerationSettings";
+import GenerationHistoryPanel from "@/components/GenerationHistoryPanel";
+import PromptPresetMenu, { type PresetTarget } from "@/components/PromptPresetMenu";
+import StreamSourcePicker, { type StreamSource } from "@/components/StreamSourcePicker";
+import CompositorSettings from "@/components/CompositorSettings";
+import LivePromptControls from "@/components/LivePromptControls";
+import PageStrip from "@/components/PageStrip";
+import VersionHistoryPanel, { checkpointLabel } from "@/components/VersionHistoryPanel";
+import CheckpointPreview from "@/components/CheckpointPreview";
+import ExportMenu from "@/components/ExportMenu";
+import type { DaydreamStreamResponse, PageData, PromptJob } from "@/lib/types";
+import {
+    DaydreamSession,
+    PromptCancelledError,
+    type DaydreamSessionState,
+} from "@/lib/daydream-session";
+import { CanvasCapture } from "@/lib/canvas-capture";
+import {
+    DEFAULT_LIVE_PROMPT_SETTINGS,
+    LivePromptController,
+    type LivePromptSettings,
+} from "@/lib/live-prompt";
+import {
+    DEFAULT_COMPOSITE_OPTIONS,
+    StreamCompositor,
+    type CompositeOptions,
+} from "@/lib/stream-compositor";
+import { insertLiveVideo } from "@/lib/live-video";
+import { StreamRecorder, insertRecording, isRecordingSupported, recordingFilename } from "@/lib/recording";
+import { downloadBlob } from "@/lib/download";
+import { getAiRenderMeta, getLiveSourceIds, insertImage, renderShapes } from "@/lib/ai-render";
+import { ApiError, type ApiErrorCode } from "@/lib/api-errors";
+import {
+    getDaydreamSettings,
+    updateDaydreamSettings,
+    type DaydreamBoardSettings,
+} from "@/lib/board-settings";
+import type { GenerationParams } from "@/lib/generation-params";
+import {
+    getGenerationHistory,
+    trackGeneration,
+    type GenerationHistoryEntry,
+} from "@/lib/generation-history";
+import { getBoardPresets, setBoardPresets, type PromptPreset } from "@/lib/prompt-presets";
+import {
+    PendingChanges,
+    applyRemoteDiff,
+    applyRoomDocument,
+    filterDiff,
+    getDocumentRecords,
+    isEmptyDiff,
+    serializeDiff,
+    type RoomDiff,
+    type RoomDocument,
+} from "@/lib/sync";
+import {
+    Participant,
+    PresenceListener,
+    applyRemotePresence,
+    getLocalUser,
+    listenToPresence,
+    removeRemotePresence,
+    saveLocalUser,
+    type LocalUser,
+} from "@/lib/presence";
+import {
+    BoardAccessError,
+    addBoardPage,
+    buildEditUrl,
+    buildViewUrl,
+    claimBoard,
+    deleteBoardPage,
+    fetchBoard,
+    fetchBoardState,
+    fetchCheckpoint,
+    listCheckpoints,
+    readActivePageId,
+    reorderBoardPages,
+    saveBoard,
+    saveBoardState,
+    saveCheckpoint,
+    updateBoardPage,
+    uploadBoardAsset,
+    writeActivePageId,
+    type CreatedBoard,
+} from "@/lib/boards";
+import { BoardCacheQuotaError, readCachedBoard, writeCachedBoard } from "@/lib/board-cache";
+import {
+    applyBoardMeta,
+    applyPageList,
+    createPage,
+    duplicatePage,
+    getBoardMeta,
+    getShownPageId,
+    isSamePageList,
+    loadPage,
+    markShownPage,
+    movePage,
+    nextPageName,
+    renderThumbnail,
+    toPageList,
+    type PageListEntry,
+} from "@/lib/pages";
+import { AutoCheckpoints } from "@/lib/auto-checkpoints";
+import type { Checkpoint, CheckpointInfo } from "@/lib/board-checkpoints";
 
 // ---------------- Types ----------------
-type SerializedStoreSnapshot = ReturnType<Editor["store"]["getSnapshot"]>;
-type PageData = {
-    id: string;
-    name: string;
-    canvasData: SerializedStoreSnapshot | null;
-};
+type PromptMode = "enhance" | "generate";
+type PromptProgress = { mode: PromptMode; job: PromptJob | null };
+// Saves one change to the pages on the server
+type PageRequest = (token: string | null) => Promise<void>;
+// A history re-run replays its own prompt and settings instead of the header's
+type GenerationOverrides = { prompt?: string; params?: GenerationParams; sourceShapeIds?: TLShapeId[] };
 type DaydreamPayload = {
     stream_id: string;
     prompt: string;
@@ -31,15 +152,35 @@ type DaydreamPayload = {
 };
 
 // ---------------- Helpers ----------------
-const generateShortId = (): string => {
-    const chars = "abcdefghijklmnopqrstuvwxyz0123456789";
-    return Array.from({ length: 3 }, () =>
-        Array.from({ length: 3 }, () => chars[Math.floor(Math.random() * chars.length)]).join("")
-    ).join("-");
+const NO_GENERATION_PARAMS: GenerationParams = {};
+
+// What to tell the user for each API error code; the rest show the server's message
+const API_ERROR_MESSAGES: Partial<Record<ApiErrorCode, string>> = {
+    bad_prompt: "Daydream rejected the prompt. Try rewording it.",
+    quota_exceeded: "Daydream quota exceeded. Check your plan or try again later.",
+    rate_limited: "Too many requests to Daydream. Wait a moment and try again.",
+    upstream_auth: "The server's Daydream API key was rejected.",
+    upstream_down: "Daydream is unreachable right now. Try again shortly.",
+    timeout: "Daydream took too long to answer. Try again.",
+    not_found: "The live stream has ended. Try again to start a new one.",
+};
+
+const describeError = (err: unknown, fallback: string): string => {
+    if (!(err instanceof ApiError)) return fallback;
+    return API_ERROR_MESSAGES[err.code] ?? `${fallback}: ${err.message}`;
 };
 
 const DEFAULT_REQUEST_TIMEOUT = 30_000;
 
+const SESSION_STATE_COLORS: Record<DaydreamSessionState, string> = {
+    idle: "bg-neutral-400",
+    creating: "bg-amber-400 animate-pulse",
+    connecting: "bg-amber-400 animate-pulse",
+    live: "bg-green-500",
+    failed: "bg-red-500",
+    closed: "bg-neutral-400",
+};
+
 async function fetchWithTimeout(
     input: RequestInfo,
     init: RequestInit = {},
@@ -55,298 +196,1157 @@ async function fetchWithTimeout(
     }
 }
 
-const blobToDataUrl = (blob: Blob): Promise<string> =>
-    new Promise((resolve, reject) => {
-        const reader = new FileReader();
-        reader.onload = () => resolve(reader.result as string);
-        reader.onerror = reject;
-        reader.readAsDataURL(blob);
-    });
-
-const exportShapeAsDataUrl = async (
-    editor: Editor,
-    shapeId: string
-): Promise<string | null> => {
-    try {
-        const { blob } = await editor.toImage([shapeId as TLShapeId], {
-            format: "png",
-            background: false,
-            quality: 1,
-        });
-        if (!blob) return null;
-        return await blobToDataUrl(blob);
-    } catch (err) {
-        console.error("Export error:", err);
-        return null;
-    }
-};
-
 // ---------------- Main Component ----------------
 export default function Board(): React.ReactElement {
-    const { roomId } = useParams();
+    const { roomId } = useParams<{ roomId: string }>();
+    const router = useRouter();
+    const searchParams = useSearchParams();
+    // Read once: revoking the edit link swaps the token without reloading the board
+    const tokenRef = useRef<string | null>(searchParams.get("token"));
+    const [accessError, setAccessError] = useState<string | null>(null);
+    const [isShareOpen, setIsShareOpen] = useState<boolean>(false);
     const canvasRef = useRef<HTMLCanvasElement | null>(null);
     const editorRef = useRef<Editor | null>(null);
     const socketRef = useRef<Socket | null>(null);
     const lastSavedState = useRef<string | null>(null);
+    // Board meta as last saved to the server, to apply on load and to save only when it changes
+    const savedBoardMetaRef = useRef<JsonObject | null>(null);
+    const lastSavedBoardMeta = useRef<string | null>(null);
     const videoStreamRef = useRef<MediaStream | null>(null);
     const [useEnhanced, setUseEnhanced] = useState<boolean>(false);
     const videoElementRef = useRef<HTMLVideoElement | null>(null);
+    const pendingChangesRef = useRef(new PendingChanges());
+    const hasJoinedRef = useRef<boolean>(false);
+    const [editor, setEditor] = useState<Editor | null>(null);
+    const localUserRef = useRef<LocalUser | null>(null);
+    const presenceRef = useRef<PresenceListener | null>(null);
+    const [participants, setParticipants] = useState<Participant[]>([]);
+    const [selfId, setSelfId] = useState<string | null>(null);
 
-    const initialPage: PageData = {
-        id: generateShortId(),
-        name: "Page 1",
-        canvasData: null,
-    };
-    const [pages, setPages] = useState<PageData[]>(() => {
-        if (typeof window !== "undefined") {
-            try {
-                const saved = localStorage.getItem(`canvas-state-${roomId}`);
-                return saved ? (JSON.parse(saved) as PageData[]) : [initialPage];
-            } catch {
-                return [initialPage];
-            }
-        }
-        return [initialPage];
-    });
-    const [activePageId, setActivePageId] = useState(initialPage.id);
+    const [pages, setPages] = useState<PageData[]>(() => [createPage("Page 1")]);
+    // May name a page that is not loaded yet; checked once the board is loaded
+    const [activePageId, setActivePageId] = useState<string>(() => readActivePageId(roomId) ?? pages[0].id);
+    const activePageIdRef = useRef(activePageId);
+    activePageIdRef.current = activePageId;
+    const [isBoardLoaded, setIsBoardLoaded] = useState<boolean>(false);
+    const hasUnsyncedChangesRef = useRef<boolean>(false);
+    // Whether the server has this board; until it does, saves upload all of it
+    const isOnServerRef = useRef<boolean>(false);
+    const syncQueueRef = useRef<Promise<unknown>>(Promise.resolve());
     const [aiPrompt, setAiPrompt] = useState<string>("");
     const [generatePrompt, setGeneratePrompt] = useState<string>("");
     const [showGrid] = useState<boolean>(true);
-    const [viewUrl, setViewUrl] = useState<string>("");
-    const [selectedShapes, setSelectedShapes] = useState<string[]>([]);
+    const selectedShapes = useValue("selected shapes", () => editor?.getSelectedShapeIds() ?? [], [editor]);
+    const [renderPrompt, setRenderPrompt] = useState<string>("");
+    const [isRendering, setIsRendering] = useState<boolean>(false);
     const [isEnhancing, setIsEnhancing] = useState<boolean>(false);
     const [isGenerating, setIsGenerating] = useState<boolean>(false);
+    const sessionRef = useRef<DaydreamSession | null>(null);
+    const sessionStartRef = useRef<Promise<DaydreamSession> | null>(null);
+    // Pipeline the current session was started for
+    const sessionKeyRef = useRef<string | null>(null);
+    const livePromptRef = useRef<LivePromptController | null>(null);
+    const [livePromptSettings, setLivePromptSettings] = useState<LivePromptSettings>(DEFAULT_LIVE_PROMPT_SETTINGS);
+    const livePromptSettingsRef = useRef(livePromptSettings);
+    livePromptSettingsRef.current = livePromptSettings;
+    const promptAbortRef = useRef<AbortController | null>(null);
+    const [promptProgress, setPromptProgress] = useState<PromptProgress | null>(null);
+    const [sessionState, setSessionState] = useState<DaydreamSessionState>("idle");
+    const [streamSource, setStreamSource] = useState<StreamSource>({ kind: "camera" });
+    const streamSourceRef = useRef(streamSource);
+    streamSourceRef.current = streamSource;
+    const canvasCaptureRef = useRef<CanvasCapture | null>(null);
+    const [compositeOptions, setCompositeOptions] = useState<CompositeOptions>(DEFAULT_COMPOSITE_OPTIONS);
+    const compositeOptionsRef = useRef(compositeOptions);
+    compositeOptionsRef.current = compositeOptions;
+    const compositorRef = useRef<StreamCompositor | null>(null);
+    const recorderRef = useRef<StreamRecorder | null>(null);
+    const [recordingStartedAt, setRecordingStartedAt] = useState<number | null>(null);
+    // Checked after mounting: the server cannot know what the browser records
+    const [canRecord, setCanRecord] = useState<boolean>(false);
+    const daydreamSettings = useValue<DaydreamBoardSettings>(
+        "daydream settings",
+        () => (editor ? getDaydreamSettings(editor) : {}),
+        [editor]
+    );
+    const daydreamSettingsRef = useRef(daydreamSettings);
+    daydreamSettingsRef.current = daydreamSettings;
+    const generationHistory = useValue<GenerationHistoryEntry[]>(
+        "generation history",
+        () => (editor ? getGenerationHistory(editor) : []),
+        [editor]
+    );
+    const [isHistoryOpen, setIsHistoryOpen] = useState<boolean>(false);
+    const [isVersionsOpen, setIsVersionsOpen] = useState<boolean>(false);
+    const [checkpoints, setCheckpoints] = useState<CheckpointInfo[]>([]);
+    const [isLoadingCheckpoints, setIsLoadingCheckpoints] = useState<boolean>(false);
+    const [previewCheckpoint, setPreviewCheckpoint] = useState<Checkpoint | null>(null);
+    const autoCheckpointsRef = useRef<AutoCheckpoints | null>(null);
+    const boardPresets = useValue<PromptPreset[]>(
+        "board presets",
+        () => (editor ? getBoardPresets(editor) : []),
+        [editor]
+    );
+
+    const pagesRef = useRef(pages);
+    pagesRef.current = pages;
+    // Page the shared document belongs to; changes when a collaborator switches pages
+    const shownPageId = useValue("shown page", () => (editor ? getShownPageId(editor) : null), [editor]);
+
+    // Said once per visit; the server copy is unaffected
+    const cacheErrorShownRef = useRef<boolean>(false);
+    const handleCacheError = useCallback((err: unknown) => {
+        console.error("Failed to cache board:", err);
+        if (cacheErrorShownRef.current) return;
+        cacheErrorShownRef.current = true;
+        toast.warning(
+            err instanceof BoardCacheQuotaError
+                ? "Browser storage is full, so this board is not saved for offline use"
+                : "Could not save this board for offline use"
+        );
+    }, []);
 
-    const saveCanvasState = useCallback(() => {
+    // The server owns the board; fall back to the local cache when it is unreachable
+    useEffect(() => {
+        let cancelled = false;
+        const applyLoadedPages = (loaded: PageData[]) => {
+            setPages(loaded);
+            setActivePageId((current) =>
+                loaded.some((p) => p.id === current) ? current : loaded[0].id
+            );
+            setIsBoardLoaded(true);
+        };
+        const applyCachedPages = async () => {
+            const cached = await readCachedBoard(roomId);
+            if (!cancelled) applyLoadedPages(cached ?? pagesRef.current);
+        };
+        // Boards saved before board state existed have none; their pages carry the meta
+        const boardState = fetchBoardState(roomId, tokenRef.current).catch((err) => {
+            console.warn("Failed to load board state:", err);
+            return null;
+        });
+        // Only tokenless rooms are not found without a token. One from before share
+        // links were added is claimed by the browser that has it cached, which
+        // gets its links; that also moves its old localStorage copy over.
+        const loadServerBoard = async (): Promise<PageData[] | null> => {
+            const serverPages = await fetchBoard(roomId, tokenRef.current);
+            if (serverPages || tokenRef.current || !(await readCachedBoard(roomId))) return serverPages;
+            const claimed = await claimBoard(roomId);
+            tokenRef.current = claimed.editToken;
+            window.history.replaceState(null, "", `?token=${encodeURIComponent(claimed.editToken)}`);
+            toast.success("This board now has share links; use the share button to pass them on");
+            return fetchBoard(roomId, claimed.editToken);
+        };
+        loadServerBoard()
+            .then(async (serverPages) => {
+                if (cancelled) return;
+                const state = await boardState;
+                if (cancelled) return;
+                if (state) {
+                    savedBoardMetaRef.current = state.meta;
+                    lastSavedBoardMeta.current = JSON.stringify(state.meta);
+                }
+                if (serverPages) {
+                    isOnServerRef.current = true;
+                    applyLoadedPages(serverPages);
+                    // Not part of loading: a full cache must not look like an unreachable server
+                    writeCachedBoard(roomId, serverPages).catch(handleCacheError);
+                } else {
+                    // New on the server: the first save uploads whatever we have cached
+                    await applyCachedPages();
+                }
+            })
+            .catch(async (err) => {
+                if (cancelled) return;
+                if (err instanceof BoardAccessError) {
+                    setAccessError(err.message);
+                    return;
+                }
+                console.warn("Board server unreachable, using offline cache:", err);
+                toast.warning("Working offline, changes are saved locally");
+                await applyCachedPages();
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [roomId, handleCacheError]);
+
+    // Send one page change to the server. A board the server does not have yet,
+    // or that missed changes made offline, is uploaded whole instead. Resolves
+    // with whether the server took the change.
+    const syncBoard = useCallback(
+        async (request?: PageRequest): Promise<boolean> => {
+            try {
+                if (!request || !isOnServerRef.current || hasUnsyncedChangesRef.current) {
+                    await saveBoard(roomId, pagesRef.current, tokenRef.current);
+                    isOnServerRef.current = true;
+                    hasUnsyncedChangesRef.current = false;
+                } else {
+                    await request(tokenRef.current);
+                }
+                return true;
+            } catch (err) {
+                // A collaborator deleted the page in the meantime
+                if (err instanceof ApiError && err.code === "not_found") return false;
+                hasUnsyncedChangesRef.current = true;
+                console.warn("Failed to save board to server, kept in local cache:", err);
+                return false;
+            }
+        },
+        [roomId]
+    );
+
+    // Push changes made while offline once we are back
+    useEffect(() => {
+        const handleOnline = () => {
+            if (hasUnsyncedChangesRef.current) void syncBoard();
+        };
+        window.addEventListener("online", handleOnline);
+        return () => window.removeEventListener("online", handleOnline);
+    }, [syncBoard]);
+
+    // Every change to the pages goes through here so the cache and server follow.
+    // `request` saves the change on the server; without it only the cache is
+    // updated, for changes a collaborator saves. Once the server has a change to
+    // the page list, the room is told so their page strips follow.
+    const commitPages = useCallback(
+        (nextPages: PageData[], request: PageRequest | null) => {
+            const isListChanged = !isSamePageList(toPageList(pagesRef.current), toPageList(nextPages));
+            pagesRef.current = nextPages;
+            setPages(nextPages);
+            writeCachedBoard(roomId, nextPages).catch(handleCacheError);
+            if (!request) return;
+            // One at a time, so a page is on the server before its content is saved
+            const synced = syncQueueRef.current.then(() => syncBoard(request));
+            syncQueueRef.current = synced;
+            void synced.then((saved) => {
+                if (saved && isListChanged) socketRef.current?.emit("pageList", { pages: toPageList(pagesRef.current) });
+            });
+        },
+        [roomId, syncBoard, handleCacheError]
+    );
+
+    // Pages a collaborator added, renamed, deleted or moved. New pages are fetched
+    // from the server, which has them by the time the room hears of them.
+    const handleRemotePageList = useCallback(
+        (list: PageListEntry[]) => {
+            const apply = (fetched: PageData[]) => {
+                const next = applyPageList(list, pagesRef.current, fetched);
+                if (next.length > 0) commitPages(next, null);
+            };
+            if (list.every((entry) => pagesRef.current.some((p) => p.id === entry.id))) {
+                apply([]);
+                return;
+            }
+            fetchBoard(roomId, tokenRef.current)
+                .then((serverPages) => apply(serverPages ?? []))
+                .catch((err) => console.warn("Failed to fetch new pages:", err));
+        },
+        [roomId, commitPages]
+    );
+
+    // Settings, presets and history are saved once for the board, not with each page
+    const saveBoardMeta = useCallback(
+        (editor: Editor) => {
+            const meta = getBoardMeta(editor);
+            const metaJSON = JSON.stringify(meta);
+            if (metaJSON === lastSavedBoardMeta.current) return;
+            lastSavedBoardMeta.current = metaJSON;
+            saveBoardState(roomId, { meta }, tokenRef.current).catch((err) => {
+                lastSavedBoardMeta.current = null;
+                console.warn("Failed to save board settings:", err);
+            });
+        },
+        [roomId]
+    );
+
+    const saveCanvasState = useCallback(async (sync = true) => {
         const editor = editorRef.current;
-        if (!editor) return;
+        // Saving before the board is loaded would overwrite it with an empty canvas
+        if (!editor || !isBoardLoaded) return;
         try {
-            const snapshot = editor.store.getSnapshot();
-            const snapshotJSON = JSON.stringify(snapshot);
+            // The document knows its page, even when a switch happened after this save was scheduled
+            const pageId = getShownPageId(editor) ?? activePageIdRef.current;
+            const snapshot = getSnapshot(editor.store);
+            const snapshotJSON = JSON.stringify(snapshot.document);
             if (snapshotJSON === lastSavedState.current) return;
-            setPages((prevPages) => {
-                const newPages = prevPages.map((p) =>
-                    p.id === activePageId ? { ...p, canvasData: snapshot } : p
-                );
-                localStorage.setItem(`canvas-state-${roomId}`, JSON.stringify(newPages));
-                console.log("Saved canvas state, pages:", newPages);
-                return newPages;
-            });
             lastSavedState.current = snapshotJSON;
+            if (sync) saveBoardMeta(editor);
+            const thumbnail = await renderThumbnail(editor);
+            // Drop the thumbnail if the page was switched while it rendered
+            const isSamePage = getShownPageId(editor) === pageId;
+            const page = pagesRef.current.find((p) => p.id === pageId);
+            if (!page) return;
+            const saved = { ...page, canvasData: snapshot, thumbnail: isSamePage ? (thumbnail ?? undefined) : page.thumbnail };
+            commitPages(
+                pagesRef.current.map((p) => (p.id === pageId ? saved : p)),
+                sync
+                    ? (token) =>
+                          updateBoardPage(
+                              roomId,
+                              pageId,
+                              { content: { canvasData: snapshot, thumbnail: saved.thumbnail ?? null } },
+                              token
+                          )
+                    : null
+            );
         } catch (err) {
             console.error("Failed to save canvas snapshot:", err);
         }
-    }, [activePageId, roomId]);
+    }, [roomId, isBoardLoaded, commitPages, saveBoardMeta]);
+
+    // A page that could not be fully loaded keeps what was saved as a version,
+    // since the next save replaces it with what was recovered
+    const keepSavedVersion = useCallback(
+        (page: PageData, problem: string) => {
+            if (!page.canvasData) return;
+            toast.warning(`${problem} The saved page is kept in version history.`);
+            saveCheckpoint(
+                roomId,
+                {
+                    pageId: page.id,
+                    name: "Before recovery",
+                    auto: false,
+                    dedupe: true,
+                    canvasData: page.canvasData,
+                    thumbnail: page.thumbnail ?? null,
+                },
+                tokenRef.current
+            ).catch((err) => toast.error(describeError(err, "Could not keep the saved page")));
+        },
+        [roomId]
+    );
+
+    // Put a page in the editor. With `broadcast`, the room's document is replaced
+    // too so collaborators follow; otherwise the room's document wins once we join.
+    const showPageInEditor = useCallback(
+        (editor: Editor, page: PageData, broadcast: boolean) => {
+            try {
+                let loaded: ReturnType<typeof loadPage>;
+                let problem: string | null = null;
+                try {
+                    loaded = loadPage(editor, page);
+                    if (loaded.dropped > 0) problem = `${loaded.dropped} item(s) on "${page.name}" could not be loaded.`;
+                } catch (err) {
+                    console.error("Failed to load canvas snapshot:", err);
+                    // Empty rather than the previous page's content under this page's id
+                    loaded = loadPage(editor, { ...page, canvasData: null });
+                    problem = `"${page.name}" could not be loaded.`;
+                }
+                if (problem) keepSavedVersion(page, problem);
+                const socket = socketRef.current;
+                if (broadcast && socket?.connected && hasJoinedRef.current) {
+                    const records = getDocumentRecords(editor);
+                    const current = new Set(records.map((r) => r.id));
+                    const removed = [...loaded.previous].filter((id) => !current.has(id));
+                    const diff = { added: records, updated: [], removed };
+                    socket.emit("storeDiff", { seq: pendingChangesRef.current.track(diff), diff });
+                }
+                markShownPage(editor, page.id);
+                if (broadcast) {
+                    saveBoardState(roomId, { shownPageId: page.id }, tokenRef.current).catch((err) =>
+                        console.warn("Failed to save the shown page:", err)
+                    );
+                }
+            } catch (err) {
+                console.error("Failed to show page:", err);
+            }
+            lastSavedState.current = null;
+            // Edits made so far were on the previous page, not this one
+            autoCheckpointsRef.current?.reset();
+            activePageIdRef.current = page.id;
+            setActivePageId(page.id);
+        },
+        [roomId, keepSavedVersion]
+    );
+
+    // Load the active page once the board is loaded. Loaded as a remote change
+    // so it is not sent to the room; the room's own document replaces it once we join.
+    useEffect(() => {
+        if (!editor || !isBoardLoaded) return;
+        const page = pagesRef.current.find((p) => p.id === activePageIdRef.current);
+        if (page?.canvasData) showPageInEditor(editor, page, false);
+        else if (page) markShownPage(editor, page.id);
+        if (savedBoardMetaRef.current) applyBoardMeta(editor, savedBoardMetaRef.current);
+    }, [editor, isBoardLoaded, showPageInEditor]);
+
+    useEffect(() => {
+        if (isBoardLoaded) writeActivePageId(roomId, activePageId);
+    }, [roomId, activePageId, isBoardLoaded]);
+
+    // A collaborator switched pages: their page's document has already replaced
+    // ours. A page they just added reaches the page list through handleRemotePageList.
+    useEffect(() => {
+        if (!shownPageId || shownPageId === activePageIdRef.current) return;
+        lastSavedState.current = null;
+        activePageIdRef.current = shownPageId;
+        setActivePageId(shownPageId);
+    }, [shownPageId]);
+
+    const handleSelectPage = useCallback(
+        async (pageId: string) => {
+            const editor = editorRef.current;
+            if (!editor || pageId === activePageIdRef.current) return;
+            // Keep the edits to the page being left
+            await saveCanvasState();
+            const page = pagesRef.current.find((p) => p.id === pageId);
+            if (page) showPageInEditor(editor, page, true);
+        },
+        [saveCanvasState, showPageInEditor]
+    );
+
+    const handleAddPage = useCallback(() => {
+        const page = createPage(nextPageName(pagesRef.current));
+        const index = pagesRef.current.length;
+        commitPages([...pagesRef.current, page], (token) => addBoardPage(roomId, page, index, token));
+        void handleSelectPage(page.id);
+    }, [roomId, commitPages, handleSelectPage]);
+
+    const handleDuplicatePage = useCallback(
+        async (pageId: string) => {
+            if (pageId === activePageIdRef.current) await saveCanvasState();
+            const index = pagesRef.current.findIndex((p) => p.id === pageId);
+            if (index === -1) return;
+            const copy = duplicatePage(pagesRef.current[index]);
+            commitPages(
+                [...pagesRef.current.slice(0, index + 1), copy, ...pagesRef.current.slice(index + 1)],
+                (token) => addBoardPage(roomId, copy, index + 1, token)
+            );
+            void handleSelectPage(copy.id);
+        },
+        [roomId, commitPages, saveCanvasState, handleSelectPage]
+    );
+
+    const handleRenamePage = useCallback(
+        (pageId: string, name: string) =>
+            commitPages(
+                pagesRef.current.map((p) => (p.id === pageId ? { ...p, name } : p)),
+                (token) => updateBoardPage(roomId, pageId, { name }, token)
+            ),
+        [roomId, commitPages]
+    );
+
+    const handleMovePage = useCallback(
+        (pageId: string, toIndex: number) => {
+            const next = movePage(pagesRef.current, pageId, toIndex);
+            commitPages(next, (token) => reorderBoardPages(roomId, next.map((p) => p.id), token));
+        },
+        [roomId, commitPages]
+    );
+
+    const handleDeletePage = useCallback(
+        async (pageId: string) => {
+            const current = pagesRef.current;
+            const index = current.findIndex((p) => p.id === pageId);
+            if (index === -1 || current.length === 1) return;
+            if (!window.confirm(`Delete "${current[index].name}"? This cannot be undone.`)) return;
+            if (pageId === activePageIdRef.current) {
+                await handleSelectPage(current[index + 1]?.id ?? current[index - 1].id);
+            }
+            commitPages(
+                pagesRef.current.filter((p) => p.id !== pageId),
+                (token) => deleteBoardPage(roomId, pageId, token)
+            );
+        },
+        [roomId, commitPages, handleSelectPage]
+    );
+
+    // Save the page in the editor as a version; `name` null makes it an automatic one
+    const takeCheckpoint = useCallback(
+        async (name: string | null): Promise<CheckpointInfo | null> => {
+            const editor = editorRef.current;
+            if (!editor || !isBoardLoaded) return null;
+            const pageId = getShownPageId(editor) ?? activePageIdRef.current;
+            const canvasData = getSnapshot(editor.store);
+            const thumbnail = await renderThumbnail(editor);
+            const info = await saveCheckpoint(
+                roomId,
+                { pageId, name, auto: name === null, canvasData, thumbnail },
+                tokenRef.current
+            );
+            autoCheckpointsRef.current?.reset();
+            if (pageId === activePageIdRef.current) setCheckpoints((prev) => [info, ...prev]);
+            return info;
+        },
+        [roomId, isBoardLoaded]
+    );
+
+    useEffect(() => {
+        if (!editor || !isBoardLoaded) return;
+        const autoCheckpoints = new AutoCheckpoints(editor, () => {
+            takeCheckpoint(null).catch((err) => console.warn("Automatic checkpoint failed:", err));
+        });
+        autoCheckpointsRef.current = autoCheckpoints;
+        return () => {
+            autoCheckpoints.stop();
+            autoCheckpointsRef.current = null;
+        };
+    }, [editor, isBoardLoaded, takeCheckpoint]);
+
+    useEffect(() => {
+        if (!isVersionsOpen) return;
+        let cancelled = false;
+        setIsLoadingCheckpoints(true);
+        listCheckpoints(roomId, activePageId, tokenRef.current)
+            .then((loaded) => !cancelled && setCheckpoints(loaded))
+            .catch((err) => !cancelled && toast.error(describeError(err, "Could not load versions")))
+            .finally(() => !cancelled && setIsLoadingCheckpoints(false));
+        return () => {
+            cancelled = true;
+        };
+    }, [isVersionsOpen, roomId, activePageId]);
+
+    const handleSaveCheckpoint = useCallback(
+        async (name: string) => {
+            try {
+                await takeCheckpoint(name);
+                toast.success(`Saved "${name}"`);
+            } catch (err) {
+                toast.error(describeError(err, "Could not save version"));
+            }
+        },
+        [takeCheckpoint]
+    );
+
+    // The panel lists checkpoints without their snapshots
+    const loadCheckpoint = useCallback(async (checkpoint: CheckpointInfo | Checkpoint): Promise<Checkpoint | null> => {
+        if ("canvasData" in checkpoint) return checkpoint;
+        try {
+            return await fetchCheckpoint(roomId, checkpoint.id, tokenRef.current);
+        } catch (err) {
+            toast.error(describeError(err, "Could not load version"));
+            return null;
+        }
+    }, [roomId]);
+
+    const handlePreviewCheckpoint = useCallback(
+        async (info: CheckpointInfo) => setPreviewCheckpoint(await loadCheckpoint(info)),
+        [loadCheckpoint]
+    );
+
+    const handleRestoreCheckpoint = useCallback(
+        async (info: CheckpointInfo | Checkpoint) => {
+            const editor = editorRef.current;
+            if (!editor) return;
+            const label = checkpointLabel(info);
+            if (!window.confirm(`Restore "${label}"? The current version is saved as a checkpoint first.`)) return;
+            const checkpoint = await loadCheckpoint(info);
+            if (!checkpoint) return;
+            if (checkpoint.pageId !== activePageIdRef.current) await handleSelectPage(checkpoint.pageId);
+            const page = pagesRef.current.find((p) => p.id === checkpoint.pageId);
+            if (!page) {
+                toast.error("The page of this version was deleted; open it as a new page instead");
+                return;
+            }
+            try {
+                await takeCheckpoint(`Before restoring ${label}`);
+            } catch (err) {
+                toast.error(describeError(err, "Could not save the current version, nothing was restored"));
+                return;
+            }
+            showPageInEditor(editor, { ...page, canvasData: checkpoint.canvasData }, true);
+            await saveCanvasState();
+            setPreviewCheckpoint(null);
+            toast.success(`Restored "${label}"`);
+        },
+        [loadCheckpoint, handleSelectPage, takeCheckpoint, showPageInEditor, saveCanvasState]
+    );
+
+    const handleForkCheckpoint = useCallback(
+        async (info: CheckpointInfo | Checkpoint) => {
+            const checkpoint = await loadCheckpoint(info);
+            if (!checkpoint) return;
+            const index = pagesRef.current.findIndex((p) => p.id === checkpoint.pageId);
+            const source = pagesRef.current[index];
+            const page: PageData = {
+                ...createPage(`${source?.name ?? "Page"} (${checkpointLabel(checkpoint)})`),
+                canvasData: checkpoint.canvasData,
+                thumbnail: checkpoint.thumbnail ?? undefined,
+            };
+            const at = index === -1 ? pagesRef.current.length : index + 1;
+            commitPages(
+                [...pagesRef.current.slice(0, at), page, ...pagesRef.current.slice(at)],
+                (token) => addBoardPage(roomId, page, at, token)
+            );
+            setPreviewCheckpoint(null);
+            await handleSelectPage(page.id);
+        },
+        [roomId, loadCheckpoint, commitPages, handleSelectPage]
+    );
+
+    // Exports read the saved pages, so the shown page is saved first
+    const getPagesForExport = useCallback(async () => {
+        await saveCanvasState();
+        return pagesRef.current;
+    }, [saveCanvasState]);
+
+    const handleImportedBoard = useCallback(
+        (board: CreatedBoard) => router.push(`/board/${board.roomId}?token=${encodeURIComponent(board.editToken)}`),
+        [router]
+    );
+
+    // Send local document changes to the room
+    const handleStoreChange = useCallback((changes: RecordsDiff<TLRecord>) => {
+        const socket = socketRef.current;
+        if (!socket?.connected || !hasJoinedRef.current) return;
+        const diff = serializeDiff(changes);
+        if (isEmptyDiff(diff)) return;
+        const seq = pendingChangesRef.current.track(diff);
+        socket.emit("storeDiff", { seq, diff });
+    }, []);
+
+    const handleRename = useCallback((name: string) => {
+        const user = { ...(localUserRef.current ?? getLocalUser()), name };
+        localUserRef.current = user;
+        saveLocalUser(user);
+        editorRef.current?.user.updateUserPreferences({ name });
+        presenceRef.current?.setUser(user);
+        socketRef.current?.emit("updateParticipant", { name });
+    }, []);
+
+    const closeSession = useCallback(() => {
+        promptAbortRef.current?.abort();
+        livePromptRef.current?.cancel();
+        livePromptRef.current = null;
+        sessionRef.current?.close();
+        sessionRef.current = null;
+        sessionKeyRef.current = null;
+    }, []);
+
+    // The stream to push for the chosen source; board sources share one capture,
+    // which the compositor mixes with the webcam when a layout is picked
+    const getInputStream = useCallback((): MediaStream | null => {
+        const source = streamSourceRef.current;
+        if (source.kind === "camera") return videoStreamRef.current;
+        const editor = editorRef.current;
+        if (!editor) return null;
+        if (canvasCaptureRef.current) canvasCaptureRef.current.setTarget(source);
+        else canvasCaptureRef.current = new CanvasCapture(editor, source);
+        const composite = compositeOptionsRef.current;
+        if (composite.layout === "none") return canvasCaptureRef.current.stream;
+        if (compositorRef.current) {
+            compositorRef.current.setOptions(composite);
+            compositorRef.current.setCamera(videoStreamRef.current);
+        } else {
+            compositorRef.current = new StreamCompositor(
+                canvasCaptureRef.current.canvas,
+                videoStreamRef.current,
+                composite
+            );
+        }
+        return compositorRef.current.stream;
+    }, []);
+
+    const stopCompositor = useCallback(() => {
+        compositorRef.current?.stop();
+        compositorRef.current = null;
+    }, []);
+
+    // One Daydream stream per board session and pipeline, shared by enhance and
+    // generate. Switching pipelines closes the old stream before starting a new one.
+    const getLiveSession = useCallback(async (): Promise<DaydreamSession> => {
+        const { pipelineId, params } = daydreamSettingsRef.current;
+        const key = pipelineId ?? "";
+        if (sessionKeyRef.current && sessionKeyRef.current !== key) closeSession();
+        const current = sessionRef.current;
+        if (current?.isLive) return current;
+        if (sessionStartRef.current) return sessionStartRef.current;
+        const input = getInputStream();
+        if (!input) throw new Error("Video source not available");
+
+        current?.close();
+        sessionKeyRef.current = key;
+        const session = new DaydreamSession({
+            pipelineId,
+            params,
+            onStateChange: (state) => setSessionState(state),
+        });
+        sessionRef.current = session;
+        livePromptRef.current?.cancel();
+        livePromptRef.current = new LivePromptController(session, livePromptSettingsRef.current, (err) =>
+            toast.error(describeError(err, "Live prompt update failed"))
+        );
+        const starting = session.start(input).then(() => session);
+        sessionStartRef.current = starting;
+        try {
+            return await starting;
+        } finally {
+            sessionStartRef.current = null;
+        }
+    }, [closeSession, getInputStream]);
+
+    // Switch a running stream to the new source. The capture only runs while a
+    // board source is chosen, and the compositor only while a layout is picked.
+    useEffect(() => {
+        if (streamSource.kind === "camera" || compositeOptions.layout === "none") stopCompositor();
+        if (streamSource.kind === "camera") {
+            canvasCaptureRef.current?.stop();
+            canvasCaptureRef.current = null;
+        }
+        const input = getInputStream();
+        if (input) {
+            sessionRef.current?.setInputStream(input).catch((err) => console.warn("Failed to switch stream input:", err));
+        }
+    }, [streamSource, compositeOptions, getInputStream, stopCompositor]);
+
+    useEffect(
+        () => () => {
+            stopCompositor();
+            canvasCaptureRef.current?.stop();
+        },
+        [stopCompositor]
+    );
 
+    // Tear the stream down when leaving the board, including closing the tab
     useEffect(() => {
+        window.addEventListener("pagehide", closeSession);
+        return () => {
+            window.removeEventListener("pagehide", closeSession);
+            closeSession();
+        };
+    }, [closeSession]);
+
+    // Only one prompt runs at a time; a new one cancels the previous job
+    const runPrompt = useCallback(async (mode: PromptMode, prompt: string, params?: GenerationParams) => {
+        promptAbortRef.current?.abort();
+        const controller = new AbortController();
+        promptAbortRef.current = controller;
+        setPromptProgress({ mode, job: null });
+        try {
+            const session = await getLiveSession();
+            livePromptRef.current?.cancel();
+            const result = await session.setPrompt(prompt, {
+                params: livePromptSettingsRef.current.lockedSeed === null
+                    ? params
+                    : { ...params, seed: livePromptSettingsRef.current.lockedSeed },
+                signal: controller.signal,
+                onProgress: (job) => setPromptProgress({ mode, job }),
+            });
+            livePromptRef.current?.setCurrent(prompt);
+            return result;
+        } finally {
+            if (promptAbortRef.current === controller) {
+                promptAbortRef.current = null;
+                setPromptProgress(null);
+            }
+        }
+    }, [getLiveSession]);
+
+    const cancelPrompt = useCallback(() => promptAbortRef.current?.abort(), []);
+
+    useEffect(() => setCanRecord(isRecordingSupported()), []);
+
+    // Record what the pipeline sends back while it plays, otherwise what we send it
+    const getRecordingStream = (): MediaStream | null => {
+        const output = videoElementRef.current as (HTMLVideoElement & { captureStream?: () => MediaStream }) | null;
+        if (output?.src && !output.paused && output.captureStream) {
+            try {
+                return output.captureStream();
+            } catch (err) {
+                console.warn("Cannot record the pipeline output, recording the input instead:", err);
+            }
+        }
+        return getInputStream();
+    };
+
+    // Stopping downloads the recording and adds it to the board
+    const handleToggleRecording = async () => {
+        const recorder = recorderRef.current;
+        if (!recorder) {
+            const stream = getRecordingStream();
+            if (!stream) {
+                toast.error("Nothing to record yet");
+                return;
+            }
+            try {
+                const started = new StreamRecorder(stream, (err) => {
+                    console.error("Recording error:", err);
+                    toast.error(err.message);
+                    if (recorderRef.current !== started) return;
+                    recorderRef.current = null;
+                    setRecordingStartedAt(null);
+                });
+                recorderRef.current = started;
+                setRecordingStartedAt(started.startedAt);
+            } catch (err) {
+                toast.error(err instanceof Error ? err.message : "Could not start recording");
+            }
+            return;
+        }
+
+        recorderRef.current = null;
+        setRecordingStartedAt(null);
+        let blob: Blob;
+        try {
+            blob = await recorder.stop();
+        } catch (err) {
+            toast.error("Recording failed");
+            console.error("Recording error:", err);
+            return;
+        }
+        const filename = recordingFilename(recorder.startedAt);
+        downloadBlob(filename, blob);
+
         const editor = editorRef.current;
         if (!editor) return;
-        const page = pages.find((p) => p.id === activePageId);
-        if (!page?.canvasData) return;
         try {
-            editor.store.loadSnapshot(page.canvasData);
+            const asset = await uploadBoardAsset(roomId, blob, tokenRef.current);
+            insertRecording(editor, asset.url, recorder.videoSize, filename);
+            saveCanvasState();
+            toast.success("Recording saved and added to the board");
         } catch (err) {
-            console.error("Failed to load canvas snapshot:", err);
+            toast.error(describeError(err, "Recording downloaded, but it could not be added to the board"));
+            console.error("Recording upload error:", err);
         }
-    }, [pages, activePageId]);
+    };
 
-    const handleGenerateVideo = async (): Promise<void> => {
+    useEffect(() => () => void recorderRef.current?.stop().catch(() => {}), []);
+
+    // Nothing to push once the camera is off, unless the board is the source
+    const handleCameraToggle = useCallback((videoOn: boolean) => {
+        if (!videoOn && streamSourceRef.current.kind === "camera") closeSession();
+    }, [closeSession]);
+
+    const playVideo = (videoUrl: string) => {
+        if (videoElementRef.current) {
+            videoElementRef.current.src = videoUrl;
+            videoElementRef.current.play().catch(() => { });
+        }
+    };
+
+    const handleGenerateVideo = async (overrides: GenerationOverrides = {}): Promise<void> => {
         const editor = editorRef.current;
         if (!editor) {
             toast.error("Editor not ready");
             return;
         }
-        if (!generatePrompt.trim()) {
+        const prompt = overrides.prompt ?? generatePrompt;
+        if (!prompt.trim()) {
             toast.error("Enter a generation prompt");
             return;
         }
-        if (!videoStreamRef.current) {
+        if (streamSource.kind === "camera" && !videoStreamRef.current) {
             toast.error("Webcam stream not available");
             return;
         }
 
+        const params = overrides.params ?? daydreamSettings.params ?? {};
         setIsGenerating(true);
         try {
-            // Create stream
-            const streamResponse = await fetch("/api/daydream/stream", {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({ pipeline_id: "pip_qpUgXycjWF6YMeSL" }),
-            });
-            if (!streamResponse.ok) throw new Error("Failed to create stream");
-            const { id: streamId, whip_url } = await streamResponse.json();
-
-            // Send webcam stream to WHIP endpoint
-            const peerConnection = new RTCPeerConnection();
-            videoStreamRef.current.getTracks().forEach(track => peerConnection.addTrack(track, videoStreamRef.current!));
-            const offer = await peerConnection.createOffer();
-            await peerConnection.setLocalDescription(offer);
-            const whipResponse = await fetch(whip_url, {
-                method: "POST",
-                headers: { "Content-Type": "application/sdp" },
-                body: offer.sdp,
-            });
-            if (!whipResponse.ok) throw new Error("Failed to send stream to WHIP");
-            const answer = await whipResponse.text();
-            await peerConnection.setRemoteDescription({ type: "answer", sdp: answer });
-
-            // Submit prompt
-            const promptResponse = await fetch(`/api/daydream/prompt`, {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({
-                    stream_id: streamId,
-                    prompt: generatePrompt,
-                }),
-            });
-            if (!promptResponse.ok) throw new Error("Failed to submit prompt");
-            const result = await promptResponse.json();
-            const videoUrl = result.output_rtmp_url;
+            const videoUrl = await trackGeneration(
+                editor,
+                { kind: "generate", prompt, params, pipelineId: daydreamSettings.pipelineId ?? null },
+                async () => (await runPrompt("generate", prompt, params)).output_rtmp_url ?? null
+            );
             if (!videoUrl) {
                 toast.error("No video generated");
                 return;
             }
 
-            // Add video to canvas
-            editor.createShapes([
-                {
-                    type: "geo",
-                    x: 100,
-                    y: 100,
-                    props: { geo: "rectangle", w: 280, h: 180 },
-                    meta: {
-                        name: `Video ${editor.getCurrentPageShapes().length + 1}`,
-                        hidden: false,
-                        videoUrl,
-                    },
-                },
-            ]);
-
-            // Update video element
-            if (videoElementRef.current) {
-                videoElementRef.current.src = videoUrl;
-                videoElementRef.current.play().catch(() => { });
-            }
+            insertLiveVideo(editor, { src: videoUrl, playbackId: sessionRef.current?.playbackId ?? "" });
+            playVideo(videoUrl);
 
             saveCanvasState();
             toast.success("Video stream added");
         } catch (err) {
-            toast.error("Video generation failed");
+            if (err instanceof PromptCancelledError) {
+                toast("Video generation cancelled");
+                return;
+            }
+            toast.error(describeError(err, "Video generation failed"));
             console.error("GenerateVideo error:", err);
         } finally {
             setIsGenerating(false);
         }
     };
 
-    const handleEnhanceVideo = async (): Promise<void> => {
+    const handleEnhanceVideo = async (overrides: GenerationOverrides = {}): Promise<void> => {
         const editor = editorRef.current;
         if (!editor) {
             toast.error("Editor not ready");
             return;
         }
-        if (!aiPrompt.trim()) {
+        const prompt = overrides.prompt ?? aiPrompt;
+        if (!prompt.trim()) {
             toast.error("Enter an enhancement prompt");
             return;
         }
-        if (!videoStreamRef.current) {
+        if (streamSource.kind === "camera" && !videoStreamRef.current) {
             toast.error("Webcam stream not available");
             return;
         }
 
+        const params = overrides.params ?? daydreamSettings.params ?? {};
         setIsEnhancing(true);
         try {
-            // Create stream
-            const streamResponse = await fetch("/api/daydream/stream", {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({ pipeline_id: "pip_qpUgXycjWF6YMeSL" }),
-            });
-            if (!streamResponse.ok) throw new Error("Failed to create stream");
-            const { id: streamId, whip_url } = await streamResponse.json();
-
-            // Send webcam stream to WHIP endpoint
-            const peerConnection = new RTCPeerConnection();
-            videoStreamRef.current.getTracks().forEach(track => peerConnection.addTrack(track, videoStreamRef.current!));
-            const offer = await peerConnection.createOffer();
-            await peerConnection.setLocalDescription(offer);
-            const whipResponse = await fetch(whip_url, {
-                method: "POST",
-                headers: { "Content-Type": "application/sdp" },
-                body: offer.sdp,
-            });
-            if (!whipResponse.ok) throw new Error("Failed to send stream to WHIP");
-            const answer = await whipResponse.text();
-            await peerConnection.setRemoteDescription({ type: "answer", sdp: answer });
-
-            // Submit prompt
-            const promptResponse = await fetch(`/api/daydream/prompt`, {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({
-                    stream_id: streamId,
-                    prompt: aiPrompt,
-                }),
-            });
-            if (!promptResponse.ok) throw new Error("Failed to submit prompt");
-            const result = await promptResponse.json();
-            const videoUrl = result.output_rtmp_url;
+            const videoUrl = await trackGeneration(
+                editor,
+                { kind: "enhance", prompt, params, pipelineId: daydreamSettings.pipelineId ?? null },
+                async () => (await runPrompt("enhance", prompt, params)).output_rtmp_url ?? null
+            );
             if (!videoUrl) {
                 toast.error("No enhanced video generated");
                 return;
             }
 
-            // Update video element
-            if (videoElementRef.current) {
-                videoElementRef.current.src = videoUrl;
-                videoElementRef.current.play().catch(() => { });
-            }
+            playVideo(videoUrl);
 
             saveCanvasState();
             toast.success("Video stream enhanced");
         } catch (err) {
-            toast.error("Video enhancement failed");
+            if (err instanceof PromptCancelledError) {
+                toast("Video enhancement cancelled");
+                return;
+            }
+            toast.error(describeError(err, "Video enhancement failed"));
             console.error("EnhanceVideo error:", err);
         } finally {
             setIsEnhancing(false);
         }
     };
 
+    // Render the selection with the oneshot pipeline. Selecting a previous render,
+    // or re-running one from history, renders its source shapes into a new image.
+    const handleRenderSelection = async (overrides: GenerationOverrides = {}): Promise<void> => {
+        const editor = editorRef.current;
+        if (!editor) {
+            toast.error("Editor not ready");
+            return;
+        }
+        const selected = overrides.sourceShapeIds ?? editor.getSelectedShapeIds();
+        if (selected.length === 0) {
+            toast.error("Select shapes to render");
+            return;
+        }
+        const previous =
+            !overrides.sourceShapeIds && selected.length === 1 ? getAiRenderMeta(editor, selected[0]) : null;
+        const sources = previous
+            ? getLiveSourceIds(editor, previous)
+            : selected.filter((id) => editor.getShape(id));
+        if (sources.length === 0) {
+            toast.error("The shapes this was rendered from are gone");
+            return;
+        }
+        const prompt = overrides.prompt ?? (renderPrompt.trim() || previous?.prompt || "");
+        if (!prompt) {
+            toast.error("Enter a render prompt");
+            return;
+        }
+        const params = overrides.params ?? daydreamSettings.params ?? {};
+
+        setIsRendering(true);
+        try {
+            await trackGeneration(
+                editor,
+                { kind: "render", prompt, params, pipelineId: daydreamSettings.modelId ?? null, sourceShapeIds: sources },
+                async () =>
+                    (
+                        await renderShapes(editor, sources, prompt, {
+                            target: previous ? selected[0] : undefined,
+                            modelId: daydreamSettings.modelId,
+                            params,
+                        })
+                    ).url
+            );
+            saveCanvasState();
+            toast.success(previous ? "Render updated" : "Render added");
+        } catch (err) {
+            toast.error(describeError(err, "Render failed"));
+            console.error("RenderSelection error:", err);
+        } finally {
+            setIsRendering(false);
+        }
+    };
+
+    const handleHistoryRerun = (entry: GenerationHistoryEntry) => {
+        const overrides = { prompt: entry.prompt, params: entry.params, sourceShapeIds: entry.sourceShapeIds };
+        if (entry.kind === "render") void handleRenderSelection(overrides);
+        else if (entry.kind === "generate") void handleGenerateVideo(overrides);
+        else void handleEnhanceVideo(overrides);
+    };
+
+    const handleHistoryInsert = async (entry: GenerationHistoryEntry) => {
+        const editor = editorRef.current;
+        if (!editor || !entry.outputUrl) return;
+        try {
+            if (entry.kind === "render") {
+                await insertImage(editor, entry.outputUrl, `Render: ${entry.prompt}`);
+            } else {
+                insertLiveVideo(editor, { src: entry.outputUrl });
+            }
+            saveCanvasState();
+        } catch (err) {
+            toast.error("Failed to insert output");
+            console.error("HistoryInsert error:", err);
+        }
+    };
+
+    useEffect(() => {
+        livePromptRef.current?.setSettings(livePromptSettings);
+    }, [livePromptSettings]);
+
+    // Prompt edits go straight to a running stream, debounced by the controller
+    const handlePromptInput = (mode: PromptMode, prompt: string) => {
+        if (mode === "enhance") setAiPrompt(prompt);
+        else setGeneratePrompt(prompt);
+        if (livePromptSettings.updateWhileTyping && sessionRef.current?.isLive) livePromptRef.current?.update(prompt);
+    };
+
+    // Fill the prompt input; the preset's params replace the board's unless it has none
+    const handleApplyPreset = (target: PresetTarget, prompt: string, params: GenerationParams) => {
+        if (target === "enhance") setAiPrompt(prompt);
+        else setGeneratePrompt(prompt);
+        const editor = editorRef.current;
+        if (editor && Object.keys(params).length > 0) updateDaydreamSettings(editor, { params });
+    };
+
     // Sync video stream and enhancement state from FloatingCam
+    // Only reports state; enhancing is started from the header, never by this toggle
     const handleCamStateChange = useCallback((stream: MediaStream | null, enhanced: boolean) => {
         videoStreamRef.current = stream;
-        setUseEnhanced(enhanced);
-        if (enhanced && aiPrompt.trim()) {
-            handleEnhanceVideo();
+        compositorRef.current?.setCamera(stream);
+        const input = streamSourceRef.current.kind === "camera" ? stream : compositorRef.current?.stream;
+        if (input) {
+            sessionRef.current?.setInputStream(input).catch((err) => console.warn("Failed to switch stream input:", err));
         }
-    }, [aiPrompt]);
+        setUseEnhanced(enhanced);
+    }, []);
 
-    useEffect(() => {
-        if (typeof window !== "undefined") {
-            setViewUrl(`${window.location.origin}/board/${roomId}/view`);
-        }
-    }, [roomId]);
+    const toShareLinks = useCallback(
+        (access: { editToken: string; viewToken: string }): ShareLinks => ({
+            editUrl: buildEditUrl(window.location.origin, roomId, access.editToken),
+            viewUrl: buildViewUrl(window.location.origin, roomId, access.viewToken),
+        }),
+        [roomId]
+    );
 
+    const loadShareLinks = useCallback(async (): Promise<ShareLinks> => {
+        const socket = socketRef.current;
+        if (!socket?.connected) throw new Error("Not connected to the board server");
+        const res = await socket.emitWithAck("getShareLinks");
+        if (res.error) throw new Error(res.error);
+        return toShareLinks(res);
+    }, [toShareLinks]);
+
+    const revokeShareLink = useCallback(
+        async (role: "edit" | "view"): Promise<ShareLinks> => {
+            const socket = socketRef.current;
+            if (!socket?.connected) throw new Error("Not connected to the board server");
+            const res = await socket.emitWithAck("revokeShareLink", { role });
+            if (res.error) throw new Error(res.error);
+            if (role === "edit") {
+                tokenRef.current = res.editToken;
+                window.history.replaceState(null, "", `?token=${encodeURIComponent(res.editToken)}`);
+            }
+            return toShareLinks(res);
+        },
+        [toShareLinks]
+    );
+
+    // Join the room once the board is loaded so the room document is applied on top of it
     useEffect(() => {
+        if (!editor || !isBoardLoaded) return;
+        const pendingChanges = pendingChangesRef.current;
+        const localUser = localUserRef.current ?? getLocalUser();
+        localUserRef.current = localUser;
+        editor.user.updateUserPreferences({ name: localUser.name, color: localUser.color });
         const socket = io(process.env.NEXT_PUBLIC_SIGNALING_URL ?? "http://localhost:3001", {
             reconnectionDelay: 5000,
             reconnectionAttempts: 10,
         });
         socketRef.current = socket;
-        socket.on("connect", () => socket.emit("joinSession", roomId));
+        socket.on("connect", () => {
+            hasJoinedRef.current = false;
+            pendingChanges.reset();
+            removeRemotePresence(editor);
+            socket.emit("joinSession", roomId, { token: tokenRef.current, user: localUserRef.current });
+            setSelfId(socket.id ?? null);
+            presenceRef.current?.stop();
+            presenceRef.current = listenToPresence(
+                editor,
+                { id: socket.id ?? "", ...(localUserRef.current ?? localUser) },
+                (presence) => socket.emit("presence", presence)
+            );
+        });
+        socket.on("sessionRole", (role: "edit" | "view") => {
+            if (role === "view") {
+                const token = tokenRef.current ? `?token=${encodeURIComponent(tokenRef.current)}` : "";
+                router.replace(`/board/${roomId}/view${token}`);
+            }
+        });
+        socket.on("accessDenied", ({ reason }: { reason: string }) => {
+            setAccessError(reason);
+            socket.disconnect();
+        });
+        socket.on("writeRejected", ({ reason }: { reason: string }) => toast.error(reason));
+        socket.on("participants", (list: Participant[]) => setParticipants(list));
+        socket.on("participantJoined", (participant: Participant) => {
+            setParticipants((prev) => [...prev.filter((p) => p.id !== participant.id), participant]);
+            toast(`${participant.name} joined`);
+        });
+        socket.on("participantUpdated", (participant: Participant) => {
+            setParticipants((prev) => prev.map((p) => (p.id === participant.id ? participant : p)));
+        });
+        socket.on("participantLeft", (participant: Participant) => {
+            setParticipants((prev) => prev.filter((p) => p.id !== participant.id));
+            removeRemotePresence(editor, participant.id);
+            toast(`${participant.name} left`);
+        });
+        socket.on("presence", (presence: TLInstancePresence) => applyRemotePresence(editor, presence));
+        socket.on("pageList", ({ pages: list }: { pages: PageListEntry[] }) => handleRemotePageList(list));
+        socket.on("documentState", (doc: RoomDocument) => {
+            if (doc.records.length > 0) {
+                applyRoomDocument(editor, doc);
+            } else {
+                // First one in: seed the room with our local document
+                const diff = { added: getDocumentRecords(editor), updated: [], removed: [] };
+                socket.emit("storeDiff", { seq: pendingChanges.track(diff), diff });
+            }
+            hasJoinedRef.current = true;
+        });
+        socket.on("storeDiff", ({ diff, origin }: RoomDiff) => {
+            if (origin === socket.id) {
+                pendingChanges.acknowledge(diff);
+                return;
+            }
+            applyRemoteDiff(editor, filterDiff(diff, (id) => !pendingChanges.has(id)));
+        });
+        socket.on("disconnect", () => {
+            hasJoinedRef.current = false;
+            presenceRef.current?.stop();
+            presenceRef.current = null;
+            setParticipants([]);
+            removeRemotePresence(editor);
+        });
         socket.on("connect_error", (err: Error) => console.warn("Socket connect error:", err));
         return () => {
+            hasJoinedRef.current = false;
+            presenceRef.current?.stop();
+            presenceRef.current = null;
             try {
                 socket.disconnect();
             } catch {
                 /* ignore */
             }
         };
-    }, [roomId]);
+    }, [roomId, editor, isBoardLoaded, router, handleRemotePageList]);
 
     if (!roomId || typeof roomId !== "string") {
         return <div className="text-red-500 p-4">Error: Invalid or missing roomId</div>;
     }
 
+    if (accessError) {
+        return (
+            <div className="flex flex-col items-center justify-center gap-3 w-screen h-screen bg-neutral-50 dark:bg-zinc-900 text-neutral-900 dark:text-neutral-100">
+                <h2 className="text-lg font-semibold">Can&apos;t open this board</h2>
+                <p className="text-sm text-neutral-500 dark:text-neutral-400">{accessError}</p>
+                <Link href="/" className="text-sm text-indigo-600 hover:underline">
+                    Back to Home
+                </Link>
+            </div>
+        );
+    }
+
     return (
         <div className="relative w-screen h-screen bg-neutral-50 dark:bg-zinc-900 text-neutral-900 dark:text-neutral-100">
             <header className="fixed top-0 left-0 right-0 h-14 z-[9999] flex items-center justify-between px-4 bg-white/70 dark:bg-zinc-900/70 backdrop-blur-md border-b border-neutral-200 dark:border-zinc-800">
@@ -357,15 +1357,66 @@ export default function Board(): React.ReactElement {
                     <h1 className="text-sm font-semibold">Bezalel Board</h1>
                 </div>
                 <div className="flex items-center gap-2">
+                    <ParticipantList
+                        participants={participants}
+                        selfId={selfId}
+                        onRename={handleRename}
+                    />
+                    <span
+                        title={`Live stream: ${sessionState}`}
+                        aria-label={`Live stream: ${sessionState}`}
+                        className={`h-2 w-2 rounded-full ${SESSION_STATE_COLORS[sessionState]}`}
+                    />
+                    {promptProgress && (
+                        <span className="flex items-center gap-1 text-xs text-neutral-500 dark:text-neutral-400" aria-live="polite">
+                            <Loader2 className="w-3 h-3 animate-spin" aria-hidden="true" />
+                            {promptProgress.mode === "enhance" ? "Enhancing" : "Generating"}:{" "}
+                            {promptProgress.job?.upstream_status ?? promptProgress.job?.status ?? "starting stream"}
+                            <button
+                                onClick={cancelPrompt}
+                                title="Cancel prompt"
+                                aria-label="Cancel prompt"
+                                className="p-0.5 rounded hover:bg-neutral-200 dark:hover:bg-zinc-700"
+                            >
+                                <X className="w-3 h-3" />
+                            </button>
+                        </span>
+                    )}
+                    <StreamSourcePicker editor={editor} value={streamSource} onChange={setStreamSource} />
+                    <CompositorSettings
+                        options={compositeOptions}
+                        onChange={setCompositeOptions}
+                        disabled={streamSource.kind === "camera"}
+                    />
+                    <PipelinePicker
+                        settings={daydreamSettings}
+                        onChange={(changes) => editor && updateDaydreamSettings(editor, changes)}
+                    />
+                    <GenerationSettings
+                        params={daydreamSettings.params ?? NO_GENERATION_PARAMS}
+                        onChange={(params) => editor && updateDaydreamSettings(editor, { params })}
+                    />
+                    <LivePromptControls
+                        settings={livePromptSettings}
+                        onChange={setLivePromptSettings}
+                        initialSeed={daydreamSettings.params?.seed}
+                        isLive={sessionState === "live"}
+                    />
+                    <PromptPresetMenu
+                        boardPresets={boardPresets}
+                        onBoardPresetsChange={(presets) => editor && setBoardPresets(editor, presets)}
+                        currentParams={daydreamSettings.params ?? NO_GENERATION_PARAMS}
+                        onApply={handleApplyPreset}
+                    />
                     <input
                         aria-label="Enhance video prompt"
                         placeholder="Enhance video..."
                         value={aiPrompt}
-                        onChange={(e) => setAiPrompt(e.target.value)}
+                        onChange={(e) => handlePromptInput("enhance", e.target.value)}
                         className="text-xs border border-neutral-300 dark:border-zinc-800 rounded-lg px-2 py-1 w-40 bg-white dark:bg-zinc-800 text-neutral-900 dark:text-neutral-100"
                     />
                     <button
-                        onClick={handleEnhanceVideo}
+                        onClick={() => handleEnhanceVideo()}
                         title="Enhance video stream"
                         disabled={!aiPrompt.trim() || isEnhancing}
                         className="px-2 py-1 rounded-lg bg-gradient-to-r from-indigo-600 to-fuchsia-500 text-white disabled:opacity-40 transition-all hover:scale-105 active:scale-95"
@@ -376,38 +1427,115 @@ export default function Board(): React.ReactElement {
                         aria-label="Generate video prompt"
                         placeholder="Generate video..."
                         value={generatePrompt}
-                        onChange={(e) => setGeneratePrompt(e.target.value)}
+                        onChange={(e) => handlePromptInput("generate", e.target.value)}
                         className="text-xs border border-neutral-300 dark:border-zinc-800 rounded-lg px-2 py-1 w-40 bg-white dark:bg-zinc-800 text-neutral-900 dark:text-neutral-100"
                     />
                     <button
-                        onClick={handleGenerateVideo}
+                        onClick={() => handleGenerateVideo()}
                         title="Generate new video"
                         disabled={!generatePrompt.trim() || isGenerating}
                         className="px-2 py-1 rounded-lg bg-gradient-to-r from-indigo-600 to-fuchsia-500 text-white disabled:opacity-40 transition-all hover:scale-105 active:scale-95"
                     >
                         <ImageIcon className="w-4 h-4" />
                     </button>
+                    <input
+                        aria-label="Render selection prompt"
+                        placeholder="Render selection..."
+                        value={renderPrompt}
+                        onChange={(e) => setRenderPrompt(e.target.value)}
+                        className="text-xs border border-neutral-300 dark:border-zinc-800 rounded-lg px-2 py-1 w-40 bg-white dark:bg-zinc-800 text-neutral-900 dark:text-neutral-100"
+                    />
                     <button
-                        disabled
-                        title="Share link"
+                        onClick={() => handleRenderSelection()}
+                        title="AI render selection"
+                        disabled={selectedShapes.length === 0 || isRendering}
+                        className="px-2 py-1 rounded-lg bg-gradient-to-r from-indigo-600 to-fuchsia-500 text-white disabled:opacity-40 transition-all hover:scale-105 active:scale-95"
+                    >
+                        {isRendering ? <Loader2 className="w-4 h-4 animate-spin" /> : <Wand2 className="w-4 h-4" />}
+                    </button>
+                    <button
+                        title="Generation history"
                         onClick={() => {
-                            navigator.clipboard?.writeText(viewUrl || "");
-                            toast.success("Share link copied!");
+                            setIsHistoryOpen((open) => !open);
+                            setIsVersionsOpen(false);
                         }}
+                        className={`w-8 h-8 flex items-center justify-center rounded-md border border-neutral-300 dark:border-zinc-700 hover:bg-neutral-100 dark:hover:bg-zinc-800 transition-all ${isHistoryOpen ? "text-indigo-600" : "text-neutral-500"}`}
+                    >
+                        <History className="w-4 h-4" />
+                    </button>
+                    <button
+                        title="Version history"
+                        onClick={() => {
+                            setIsVersionsOpen((open) => !open);
+                            setIsHistoryOpen(false);
+                        }}
+                        className={`w-8 h-8 flex items-center justify-center rounded-md border border-neutral-300 dark:border-zinc-700 hover:bg-neutral-100 dark:hover:bg-zinc-800 transition-all ${isVersionsOpen ? "text-indigo-600" : "text-neutral-500"}`}
+                    >
+                        <Clock className="w-4 h-4" />
+                    </button>
+                    <ExportMenu
+                        editor={editor}
+                        getPages={getPagesForExport}
+                        activePageId={activePageId}
+                        baseName={`board-${roomId.slice(0, 8)}`}
+                        onImported={handleImportedBoard}
+                    />
+                    <button
+                        title="Share board"
+                        onClick={() => setIsShareOpen(true)}
                         className="w-8 h-8 flex items-center justify-center rounded-md border border-neutral-300 dark:border-zinc-700 hover:bg-neutral-100 dark:hover:bg-zinc-800 transition-all"
                     >
                         <LinkIcon className="w-4 h-4 text-indigo-600" />
                     </button>
                 </div>
             </header>
+            <ShareDialog
+                open={isShareOpen}
+                onClose={() => setIsShareOpen(false)}
+                loadLinks={loadShareLinks}
+                revokeLink={revokeShareLink}
+            />
+            {isHistoryOpen && (
+                <GenerationHistoryPanel
+                    entries={generationHistory}
+                    onClose={() => setIsHistoryOpen(false)}
+                    onRerun={handleHistoryRerun}
+                    onInsert={handleHistoryInsert}
+                />
+            )}
+            {isVersionsOpen && (
+                <VersionHistoryPanel
+                    pageName={pages.find((p) => p.id === activePageId)?.name ?? "this page"}
+                    checkpoints={checkpoints}
+                    isLoading={isLoadingCheckpoints}
+                    onSave={(name) => void handleSaveCheckpoint(name)}
+                    onPreview={(checkpoint) => void handlePreviewCheckpoint(checkpoint)}
+                    onRestore={(checkpoint) => void handleRestoreCheckpoint(checkpoint)}
+                    onFork={(checkpoint) => void handleForkCheckpoint(checkpoint)}
+                    onClose={() => setIsVersionsOpen(false)}
+                />
+            )}
+            <CheckpointPreview
+                checkpoint={previewCheckpoint}
+                onClose={() => setPreviewCheckpoint(null)}
+                onRestore={(checkpoint) => void handleRestoreCheckpoint(checkpoint)}
+                onFork={(checkpoint) => void handleForkCheckpoint(checkpoint)}
+            />
             <main className="absolute top-14 bottom-0 left-0 right-0 flex">
-                <FloatingCam onStateChange={handleCamStateChange} />
+                <FloatingCam
+                    onStateChange={handleCamStateChange}
+                    onCameraToggle={handleCameraToggle}
+                    recordingStartedAt={recordingStartedAt}
+                    onToggleRecording={canRecord ? handleToggleRecording : undefined}
+                />
                 <div className="flex-1 relative">
                     <Canvas
                         showGrid={showGrid}
                         canvasRef={canvasRef}
                         editorRef={editorRef as React.RefObject<Editor>}
                         saveCanvasState={saveCanvasState}
+                        onEditorMount={setEditor}
+                        onStoreChange={handleStoreChange}
                     />
                     <video
                         ref={videoElementRef}
@@ -416,6 +1544,16 @@ export default function Board(): React.ReactElement {
                         className="absolute"
                         style={{ display: "none" }}
                     />
+                    <PageStrip
+                        pages={pages}
+                        activePageId={activePageId}
+                        onSelect={(pageId) => void handleSelectPage(pageId)}
+                        onAdd={handleAddPage}
+                        onRename={handleRenamePage}
+                        onDuplicate={(pageId) => void handleDuplicatePage(pageId)}
+                        onDelete={(pageId) => void handleDeletePage(pageId)}
+                        onMove={handleMovePage}
+                    />
                     <div className="absolute top-16 left-4 text-xs text-neutral-500 dark:text-neutral-400">
                         Selected Shapes: {selectedShapes.length} ({selectedShapes.join(", ")})
                     </div>
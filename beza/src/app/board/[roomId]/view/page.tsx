@@ -1,24 +1,83 @@
-
 "use client";
 
 import { useEffect, useRef, useState } from "react";
-import { useParams } from "next/navigation";
+import { useParams, useSearchParams } from "next/navigation";
 import { io, Socket } from "socket.io-client";
 import { toast } from "sonner";
+import { Editor, TLInstancePresence } from "@tldraw/tldraw";
+import { Eye } from "lucide-react";
+import ViewerCanvas from "@/components/ViewerCanvas";
+import ParticipantList from "@/components/ParticipantList";
+import { applyRemoteDiff, applyRoomDocument, type RoomDiff, type RoomDocument } from "@/lib/sync";
+import { Participant, applyRemotePresence, removeRemotePresence } from "@/lib/presence";
+import { fetchBoard, fetchBoardState } from "@/lib/boards";
+import { loadBoardSnapshot } from "@/lib/board-migrations";
 
 export default function View() {
-    const { roomId } = useParams();
+    const { roomId } = useParams<{ roomId: string }>();
+    const token = useSearchParams().get("token");
     const socketRef = useRef<Socket | null>(null);
     const [error, setError] = useState<string | null>(null);
+    const [editor, setEditor] = useState<Editor | null>(null);
+    const [participants, setParticipants] = useState<Participant[]>([]);
+    const [followId, setFollowId] = useState<string>("");
 
     useEffect(() => {
+        if (!editor) return;
         console.log("Viewer joining room:", roomId);
         const socket = io(process.env.NEXT_PUBLIC_SIGNALING_URL || "http://localhost:3001");
         socketRef.current = socket;
 
         socket.on("connect", () => {
             console.log("Socket connected:", socket.id);
-            socket.emit("joinSession", roomId);
+            setError(null);
+            removeRemotePresence(editor);
+            // Joining without a user keeps viewers out of the participant list
+            socket.emit("joinSession", roomId, { token });
+        });
+
+        socket.on("documentState", async (doc: RoomDocument) => {
+            if (doc.records.length > 0) {
+                applyRoomDocument(editor, doc);
+                return;
+            }
+            // Nobody is editing right now: show the page the editors had open last
+            try {
+                const [pages, state] = await Promise.all([
+                    fetchBoard(roomId, token),
+                    fetchBoardState(roomId, token).catch(() => null),
+                ]);
+                const shown = pages?.find((page) => page.id === state?.shownPageId) ?? pages?.[0];
+                const canvasData = shown?.canvasData;
+                if (canvasData) {
+                    let dropped = 0;
+                    editor.store.mergeRemoteChanges(() => {
+                        dropped = loadBoardSnapshot(editor, canvasData);
+                    });
+                    if (dropped > 0) toast.warning(`${dropped} item(s) on this page could not be loaded`);
+                }
+            } catch (err) {
+                console.error("Failed to load saved board:", err);
+            }
+        });
+
+        socket.on("storeDiff", ({ diff }: RoomDiff) => applyRemoteDiff(editor, diff));
+        socket.on("presence", (presence: TLInstancePresence) => applyRemotePresence(editor, presence));
+        socket.on("participants", (list: Participant[]) => setParticipants(list));
+        socket.on("participantJoined", (participant: Participant) => {
+            setParticipants((prev) => [...prev.filter((p) => p.id !== participant.id), participant]);
+        });
+        socket.on("participantUpdated", (participant: Participant) => {
+            setParticipants((prev) => prev.map((p) => (p.id === participant.id ? participant : p)));
+        });
+        socket.on("participantLeft", (participant: Participant) => {
+            setParticipants((prev) => prev.filter((p) => p.id !== participant.id));
+            removeRemotePresence(editor, participant.id);
+        });
+
+        socket.on("accessDenied", ({ reason }: { reason: string }) => {
+            setError(reason);
+            socket.disconnect();
         });
 
         socket.on("connect_error", (err) => {
@@ -31,19 +90,55 @@ export default function View() {
             console.log("Disconnecting socket");
             socket.disconnect();
         };
-    }, [roomId]);
+    }, [roomId, token, editor]);
+
+    // Stop following someone who has left
+    const isFollowedPresent = participants.some((p) => p.id === followId);
+    useEffect(() => {
+        if (!editor) return;
+        if (followId && isFollowedPresent) {
+            editor.startFollowingUser(followId);
+        } else {
+            editor.stopFollowingUser();
+        }
+    }, [editor, followId, isFollowedPresent]);
 
     return (
-        <div className="relative flex w-screen h-screen items-center justify-center bg-black">
-            {error && (
-                <div className="absolute inset-0 flex items-center justify-center text-red-500 bg-black/80">
-                    <p>{error}</p>
+        <div className="relative w-screen h-screen bg-neutral-50 dark:bg-zinc-900 text-neutral-900 dark:text-neutral-100">
+            <header className="fixed top-0 left-0 right-0 h-14 z-[9999] flex items-center justify-between px-4 bg-white/70 dark:bg-zinc-900/70 backdrop-blur-md border-b border-neutral-200 dark:border-zinc-800">
+                <div className="flex items-center gap-3">
+                    <Eye className="w-5 h-5" aria-hidden="true" />
+                    <h1 className="text-sm font-semibold">Bezalel Board</h1>
+                    <span className="text-xs text-neutral-500 dark:text-neutral-400">View only</span>
+                </div>
+                <div className="flex items-center gap-3">
+                    <ParticipantList participants={participants} selfId={null} onRename={() => { }} />
+                    <label className="flex items-center gap-2 text-xs">
+                        Follow
+                        <select
+                            aria-label="Follow presenter viewport"
+                            value={isFollowedPresent ? followId : ""}
+                            onChange={(e) => setFollowId(e.target.value)}
+                            className="text-xs border border-neutral-300 dark:border-zinc-800 rounded-lg px-2 py-1 bg-white dark:bg-zinc-800 text-neutral-900 dark:text-neutral-100"
+                        >
+                            <option value="">Nobody (free view)</option>
+                            {participants.map((p) => (
+                                <option key={p.id} value={p.id}>
+                                    {p.name}
+                                </option>
+                            ))}
+                        </select>
+                    </label>
                 </div>
-            )}
-            <div className="text-white text-center">
-                <h2 className="text-2xl font-bold mb-4">Streaming Disabled</h2>
-                <p>Canvas streaming is no longer available. Contact the board owner for details.</p>
-            </div>
+            </header>
+            <main className="absolute top-14 bottom-0 left-0 right-0">
+                <ViewerCanvas onEditorMount={setEditor} />
+                {error && (
+                    <div className="absolute inset-0 z-[10000] flex items-center justify-center text-red-500 bg-black/80">
+                        <p>{error}</p>
+                    </div>
+                )}
+            </main>
         </div>
     );
-}
\ No newline at end of file
+}
@@ -1,18 +1,39 @@
 "use client";
 
+import { useRef } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
-import { v4 as uuidv4 } from "uuid";
 import Image from "next/image";
+import { toast } from "sonner";
+import { BUNDLE_EXTENSION, importBundleFile } from "@/lib/board-bundle";
+import { createBoard as createBoardWithLinks } from "@/lib/boards";
 // import BezaBoard from "../../public/BezaBoard.png";
 // import BezaBoard from "../../public/BezaBoard.png";
 
 export default function Home() {
   const router = useRouter();
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
 
-  const createBoard = () => {
-    const roomId = uuidv4();
-    router.push(`/board/${roomId}`);
+  // The board URL carries the edit token; the view token is shared from the board
+  const createBoard = async () => {
+    try {
+      const { roomId, editToken } = await createBoardWithLinks();
+      router.push(`/board/${roomId}?token=${encodeURIComponent(editToken)}`);
+    } catch (err) {
+      console.error("Create board error:", err);
+      toast.error("Couldn't create a board, please try again");
+    }
+  };
+
+  // An exported .beza file becomes a new board; nothing existing is touched
+  const importBoard = async (file: File) => {
+    try {
+      const { roomId, editToken } = await importBundleFile(file);
+      router.push(`/board/${roomId}?token=${encodeURIComponent(editToken)}`);
+    } catch (err) {
+      console.error("Import board error:", err);
+      toast.error(err instanceof Error ? err.message : "Couldn't import the board");
+    }
   };
 
   return (
@@ -29,6 +50,24 @@ export default function Home() {
             </span>
           </div>
           <div className="flex items-center gap-4">
+            <button
+              className="rounded-xl border border-neutral-300 dark:border-neutral-700 px-5 py-2 text-sm font-medium hover:bg-neutral-50 dark:hover:bg-zinc-800 transition-all"
+              onClick={() => fileInputRef.current?.click()}
+              aria-label={`Import a board from a ${BUNDLE_EXTENSION} file`}
+            >
+              Import Board
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={`${BUNDLE_EXTENSION},application/json`}
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = "";
+                if (file) void importBoard(file);
+              }}
+            />
             <button
               className="rounded-xl bg-gradient-to-r from-indigo-600 to-fuchsia-500 text-white px-5 py-2 text-sm font-medium hover:scale-105 transition-all"
               onClick={createBoard}
@@ -9,32 +9,31 @@ import {
     StoreBeforeCreateHandler,
     RecordsDiff,
     TLRecord,
-    ChangeSource,
 } from "@tldraw/tldraw";
 import { getSnapshot } from "tldraw";
 import debounce from "lodash.debounce";
 import "@tldraw/tldraw/tldraw.css";
 import LayersPanel from "./LayersPanel";
 import FloatingCam from "./FloatingCam";
+import { customShapeUtils } from "./LiveVideoShape";
+import { boardMigrations } from "@/lib/board-migrations";
+
+// Stable across renders; tldraw rebuilds the store when it changes
+const BOARD_MIGRATIONS = [boardMigrations];
 
 // Dynamic import for Tldraw
 const Tldraw = dynamic(() => import("@tldraw/tldraw").then((mod) => mod.Tldraw), {
     ssr: false,
 });
 
-interface ShapeMeta {
-    name?: string;
-    hidden?: boolean;
-    originalX?: number;
-    originalY?: number;
-    videoUrl?: string;
-}
-
 interface CanvasProps {
     showGrid: boolean;
     canvasRef: React.MutableRefObject<HTMLCanvasElement | null>;
     editorRef: React.MutableRefObject<Editor | null>;
-    saveCanvasState: () => void;
+    // `sync` is false when only collaborators changed the board: they save it themselves
+    saveCanvasState: (sync: boolean) => void;
+    onEditorMount?: (editor: Editor) => void;
+    onStoreChange?: (changes: RecordsDiff<TLRecord>) => void;
 }
 
 export default function Canvas({
@@ -42,10 +41,15 @@ export default function Canvas({
     canvasRef,
     editorRef,
     saveCanvasState,
+    onEditorMount,
+    onStoreChange,
 }: CanvasProps) {
     const containerRef = useRef<HTMLDivElement>(null);
     const isMounted = useRef(false);
     const [isDarkMode, setIsDarkMode] = useState(false);
+    const [editor, setEditor] = useState<Editor | null>(null);
+    // Whether a local edit happened since the last save
+    const hasLocalChangesRef = useRef(false);
 
     const debouncedSave = useCallback(
         debounce(() => {
@@ -53,9 +57,11 @@ export default function Canvas({
             if (!editor) return;
             try {
                 const snapshot = getSnapshot(editor.store);
+                const sync = hasLocalChangesRef.current;
+                hasLocalChangesRef.current = false;
                 const save = () => {
                     try {
-                        saveCanvasState();
+                        saveCanvasState(sync);
                     } catch (err) {
                         console.error("Failed to save snapshot:", err);
                     }
@@ -68,7 +74,7 @@ export default function Canvas({
             } catch (err) {
                 console.error("Snapshot error:", err);
             }
-        }, 800),
+        }, 800, { maxWait: 5000 }),
         [editorRef, saveCanvasState]
     );
 
@@ -87,35 +93,7 @@ export default function Canvas({
     }, []);
 
     const components: TLComponents = {
-        InFrontOfTheCanvas: () => (
-            <>
-                <LayersPanel editorRef={editorRef} selectedShapes={[]} />
-                {editorRef.current?.getCurrentPageShapes().map(shape => {
-                    const meta = shape.meta as ShapeMeta;
-                    if (meta.videoUrl && !meta.hidden) {
-                        return (
-                            <video
-                                key={shape.id}
-                                src={meta.videoUrl}
-                                muted
-                                autoPlay
-                                loop
-                                playsInline
-                                style={{
-                                    position: "absolute",
-                                    left: shape.x,
-                                    top: shape.y,
-                                    width: (shape.props as any).w,
-                                    height: (shape.props as any).h,
-                                    zIndex: 1000,
-                                }}
-                            />
-                        );
-                    }
-                    return null;
-                })}
-            </>
-        ),
+        InFrontOfTheCanvas: () => <LayersPanel editorRef={editorRef} selectedShapes={[]} />,
     };
 
     useEffect(() => {
@@ -133,8 +111,7 @@ export default function Canvas({
     }, [editorRef]);
 
     useEffect(() => {
-        if (!editorRef.current) return;
-        const editor = editorRef.current;
+        if (!editor) return;
         if (editor.getCurrentPageShapes().length === 0) {
             editor.createShapes([
                 {
@@ -177,27 +154,37 @@ export default function Canvas({
         return () => {
             unsubscribe();
         };
-    }, [editorRef, debouncedSave]);
+    }, [editor, debouncedSave]);
 
     const handleStoreChange = useCallback(
-        ({ source }: { changes: RecordsDiff<TLRecord>; source: ChangeSource }) => {
-            if (source === "user") {
-                debouncedSave();
-            }
+        ({ source }: { source: "user" | "remote" }) => {
+            // Remote changes come from collaborators and are only cached locally
+            if (source === "user") hasLocalChangesRef.current = true;
+            debouncedSave();
         },
         [debouncedSave]
     );
 
     useEffect(() => {
-        if (!editorRef.current) return;
-        const editor = editorRef.current;
-        const unsubscribe = editor.store.listen(handleStoreChange, { scope: "all" });
+        if (!editor) return;
+        const unsubscribe = editor.store.listen(handleStoreChange, { scope: "document" });
+        return () => unsubscribe();
+    }, [editor, handleStoreChange]);
+
+    // Local document changes only; remote changes are merged with source "remote"
+    useEffect(() => {
+        if (!editor || !onStoreChange) return;
+        const unsubscribe = editor.store.listen(({ changes }) => onStoreChange(changes), {
+            source: "user",
+            scope: "document",
+        });
         return () => unsubscribe();
-    }, [editorRef, handleStoreChange]);
+    }, [editor, onStoreChange]);
 
     const handleMount = useCallback(
         (editor: Editor) => {
             editorRef.current = editor;
+            setEditor(editor);
             editor.setCurrentTool("select");
             editor.updateInstanceState({ isGridMode: showGrid });
             const canvas = editor.getContainer().querySelector("canvas");
@@ -205,8 +192,9 @@ export default function Canvas({
                 canvasRef.current = canvas;
             }
             editor.focus();
+            onEditorMount?.(editor);
         },
-        [editorRef, canvasRef, showGrid]
+        [editorRef, canvasRef, showGrid, onEditorMount]
     );
 
     return (
@@ -220,7 +208,8 @@ export default function Canvas({
                 className={isDarkMode ? "dark" : ""}
                 onMount={handleMount}
                 components={components}
-                persistenceKey="bezalel-board"
+                shapeUtils={customShapeUtils}
+                migrations={BOARD_MIGRATIONS}
                 getShapeVisibility={(shape: TLUnknownShape) =>
                     shape.meta?.force_show
                         ? "visible"
@@ -0,0 +1,78 @@
+"use client";
+
+import { useCallback } from "react";
+import { Dialog, DialogPanel, DialogTitle } from "@headlessui/react";
+import { toast } from "sonner";
+import type { Editor } from "@tldraw/tldraw";
+import { GitBranch, RotateCcw, X } from "lucide-react";
+import ViewerCanvas from "@/components/ViewerCanvas";
+import { checkpointLabel } from "@/components/VersionHistoryPanel";
+import type { Checkpoint } from "@/lib/board-checkpoints";
+import { loadBoardSnapshot } from "@/lib/board-migrations";
+
+interface CheckpointPreviewProps {
+    checkpoint: Checkpoint | null;
+    onClose: () => void;
+    onRestore: (checkpoint: Checkpoint) => void;
+    onFork: (checkpoint: Checkpoint) => void;
+}
+
+// An older version in its own read-only editor, so the live board is untouched
+export default function CheckpointPreview({ checkpoint, onClose, onRestore, onFork }: CheckpointPreviewProps) {
+    const handleMount = useCallback(
+        (editor: Editor) => {
+            if (!checkpoint) return;
+            try {
+                const dropped = loadBoardSnapshot(editor, checkpoint.canvasData);
+                if (dropped > 0) toast.warning(`${dropped} item(s) in this version could not be loaded`);
+                editor.updateInstanceState({ isReadonly: true });
+                editor.zoomToFit();
+            } catch (err) {
+                console.error("Failed to load checkpoint:", err);
+            }
+        },
+        [checkpoint]
+    );
+
+    return (
+        <Dialog open={checkpoint !== null} onClose={onClose} className="relative z-[10000]">
+            <div className="fixed inset-0 bg-black/30" aria-hidden="true" />
+            <div className="fixed inset-0 flex items-center justify-center p-4">
+                <DialogPanel className="flex flex-col w-full max-w-5xl h-[80vh] rounded-xl bg-white dark:bg-zinc-900 border border-neutral-200 dark:border-zinc-800 shadow-xl text-neutral-900 dark:text-neutral-100 overflow-hidden">
+                    {checkpoint && (
+                        <>
+                            <div className="flex items-center justify-between gap-2 px-4 py-2 border-b border-neutral-200 dark:border-zinc-800">
+                                <DialogTitle className="text-sm font-semibold truncate">
+                                    {checkpointLabel(checkpoint)}
+                                    <span className="ml-2 text-xs font-normal text-neutral-500 dark:text-neutral-400">read-only preview</span>
+                                </DialogTitle>
+                                <div className="flex items-center gap-2">
+                                    <button
+                                        onClick={() => onFork(checkpoint)}
+                                        className="flex items-center gap-1 text-xs px-2 py-1 rounded-md border border-neutral-300 dark:border-zinc-700 hover:bg-neutral-100 dark:hover:bg-zinc-800"
+                                    >
+                                        <GitBranch className="w-3 h-3" />
+                                        Open as new page
+                                    </button>
+                                    <button
+                                        onClick={() => onRestore(checkpoint)}
+                                        className="flex items-center gap-1 text-xs px-2 py-1 rounded-md bg-indigo-600 text-white hover:bg-indigo-500"
+                                    >
+                                        <RotateCcw className="w-3 h-3" />
+                                        Restore
+                                    </button>
+                                    <button onClick={onClose} aria-label="Close" className="p-1 rounded hover:bg-neutral-100 dark:hover:bg-zinc-800">
+                                        <X className="w-4 h-4" />
+                                    </button>
+                                </div>
+                            </div>
+                            <div className="relative flex-1">
+                                <ViewerCanvas key={checkpoint.id} onEditorMount={handleMount} />
+                            </div>
+                        </>
+                    )}
+                </DialogPanel>
+            </div>
+        </Dialog>
+    );
+}
@@ -0,0 +1,103 @@
+"use client";
+
+import { Popover, PopoverButton, PopoverPanel } from "@headlessui/react";
+import { PictureInPicture2 } from "lucide-react";
+import {
+    INSET_SCALE_LIMITS,
+    type CompositeLayout,
+    type CompositeOptions,
+    type InsetCorner,
+} from "@/lib/stream-compositor";
+
+interface CompositorSettingsProps {
+    options: CompositeOptions;
+    onChange: (options: CompositeOptions) => void;
+    // Mixing needs a board source to mix the webcam with
+    disabled?: boolean;
+}
+
+const LAYOUTS: { value: CompositeLayout; label: string }[] = [
+    { value: "none", label: "Canvas only" },
+    { value: "camera-over-board", label: "Webcam over canvas" },
+    { value: "board-over-camera", label: "Canvas over webcam" },
+    { value: "side-by-side", label: "Side by side" },
+];
+
+const CORNERS: { value: InsetCorner; label: string }[] = [
+    { value: "top-left", label: "Top left" },
+    { value: "top-right", label: "Top right" },
+    { value: "bottom-left", label: "Bottom left" },
+    { value: "bottom-right", label: "Bottom right" },
+];
+
+const SELECT_CLASS =
+    "w-full text-xs border border-neutral-300 dark:border-zinc-800 rounded-lg px-2 py-1 bg-white dark:bg-zinc-800 text-neutral-900 dark:text-neutral-100";
+
+export default function CompositorSettings({ options, onChange, disabled }: CompositorSettingsProps) {
+    const hasInset = options.layout === "camera-over-board" || options.layout === "board-over-camera";
+
+    return (
+        <Popover className="relative">
+            <PopoverButton
+                disabled={disabled}
+                title={disabled ? "Pick a canvas source to mix in the webcam" : "Mix webcam and canvas"}
+                className={`w-8 h-8 flex items-center justify-center rounded-md border border-neutral-300 dark:border-zinc-700 hover:bg-neutral-100 dark:hover:bg-zinc-800 transition-all disabled:opacity-40 ${!disabled && options.layout !== "none" ? "text-indigo-600" : "text-neutral-500"}`}
+            >
+                <PictureInPicture2 className="w-4 h-4" />
+            </PopoverButton>
+            <PopoverPanel
+                anchor="bottom end"
+                className="z-[10000] mt-2 w-56 rounded-xl bg-white dark:bg-zinc-900 border border-neutral-200 dark:border-zinc-800 p-3 shadow-xl text-neutral-900 dark:text-neutral-100 space-y-2"
+            >
+                <span className="block text-xs font-semibold">Webcam and canvas</span>
+                <label className="block text-xs">
+                    <span className="block mb-0.5">Layout</span>
+                    <select
+                        value={options.layout}
+                        onChange={(e) => onChange({ ...options, layout: e.target.value as CompositeLayout })}
+                        className={SELECT_CLASS}
+                    >
+                        {LAYOUTS.map(({ value, label }) => (
+                            <option key={value} value={value}>
+                                {label}
+                            </option>
+                        ))}
+                    </select>
+                </label>
+                {hasInset && (
+                    <>
+                        <label className="block text-xs">
+                            <span className="flex justify-between mb-0.5">
+                                Inset size
+                                <span>{Math.round(options.insetScale * 100)}%</span>
+                            </span>
+                            <input
+                                type="range"
+                                min={INSET_SCALE_LIMITS.min}
+                                max={INSET_SCALE_LIMITS.max}
+                                step={0.05}
+                                value={options.insetScale}
+                                onChange={(e) => onChange({ ...options, insetScale: Number(e.target.value) })}
+                                className="w-full"
+                            />
+                        </label>
+                        <label className="block text-xs">
+                            <span className="block mb-0.5">Inset position</span>
+                            <select
+                                value={options.insetCorner}
+                                onChange={(e) => onChange({ ...options, insetCorner: e.target.value as InsetCorner })}
+                                className={SELECT_CLASS}
+                            >
+                                {CORNERS.map(({ value, label }) => (
+                                    <option key={value} value={value}>
+                                        {label}
+                                    </option>
+                                ))}
+                            </select>
+                        </label>
+                    </>
+                )}
+            </PopoverPanel>
+        </Popover>
+    );
+}
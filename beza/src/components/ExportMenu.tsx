@@ -0,0 +1,142 @@
+"use client";
+
+import { useRef, useState, type ReactNode } from "react";
+import { Popover, PopoverButton, PopoverPanel } from "@headlessui/react";
+import type { Editor } from "@tldraw/tldraw";
+import { toast } from "sonner";
+import { Download, FileImage, FileText, Loader2, Package, Upload } from "lucide-react";
+import ViewerCanvas from "@/components/ViewerCanvas";
+import { BUNDLE_EXTENSION, bundleToBlob, createBundle, importBundleFile } from "@/lib/board-bundle";
+import { exportPageImages, exportPdf, type ImageExportFormat } from "@/lib/board-export";
+import type { CreatedBoard } from "@/lib/boards";
+import { downloadBlob } from "@/lib/download";
+import type { PageData } from "@/lib/types";
+
+type ExportScope = "page" | "all";
+type ExportKind = ImageExportFormat | "pdf" | "bundle";
+
+interface ExportMenuProps {
+    editor: Editor | null;
+    // Saves the shown page first, so exports include the latest edits
+    getPages: () => Promise<PageData[]>;
+    activePageId: string;
+    baseName: string;
+    onImported: (board: CreatedBoard) => void;
+}
+
+const OPTION_CLASS =
+    "w-full flex items-center gap-2 text-xs px-2 py-1.5 rounded-lg hover:bg-neutral-100 dark:hover:bg-zinc-800 disabled:opacity-40";
+
+export default function ExportMenu({ editor, getPages, activePageId, baseName, onImported }: ExportMenuProps) {
+    const [scope, setScope] = useState<ExportScope>("page");
+    const [busy, setBusy] = useState<ExportKind | "import" | null>(null);
+    // Draws pages for image and PDF export without touching the board
+    const [renderer, setRenderer] = useState<Editor | null>(null);
+    const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+    const handleExport = async (kind: ExportKind) => {
+        if (!editor) return;
+        setBusy(kind);
+        try {
+            const allPages = await getPages();
+            const pages = scope === "all" ? allPages : allPages.filter((p) => p.id === activePageId);
+            if (kind === "bundle") {
+                const { bundle, missingAssets } = await createBundle(editor, pages);
+                downloadBlob(`${baseName}${BUNDLE_EXTENSION}`, bundleToBlob(bundle));
+                if (missingAssets > 0) {
+                    toast.warning(`${missingAssets} file(s) could not be included and will load from their original address`);
+                }
+                return;
+            }
+            if (!renderer) return;
+            const saved =
+                kind === "pdf"
+                    ? await exportPdf(renderer, pages, baseName)
+                    : (await exportPageImages(renderer, pages, kind, baseName)) > 0;
+            if (!saved) toast.info("Nothing to export: the page is empty");
+        } catch (err) {
+            console.error("Export failed:", err);
+            toast.error("Export failed");
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const handleImport = async (file: File) => {
+        setBusy("import");
+        try {
+            onImported(await importBundleFile(file));
+        } catch (err) {
+            console.error("Import failed:", err);
+            toast.error(err instanceof Error ? err.message : "Import failed");
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const option = (kind: ExportKind, label: string, icon: ReactNode, needsRenderer: boolean) => (
+        <button
+            onClick={() => void handleExport(kind)}
+            disabled={busy !== null || !editor || (needsRenderer && !renderer)}
+            className={OPTION_CLASS}
+        >
+            {busy === kind ? <Loader2 className="w-3 h-3 animate-spin" /> : icon}
+            {label}
+        </button>
+    );
+
+    return (
+        <Popover className="relative">
+            <PopoverButton
+                title="Export and import"
+                className="w-8 h-8 flex items-center justify-center rounded-md border border-neutral-300 dark:border-zinc-700 hover:bg-neutral-100 dark:hover:bg-zinc-800 transition-all text-neutral-500"
+            >
+                <Download className="w-4 h-4" />
+            </PopoverButton>
+            <PopoverPanel
+                anchor="bottom end"
+                className="z-[10000] mt-2 w-56 rounded-xl bg-white dark:bg-zinc-900 border border-neutral-200 dark:border-zinc-800 p-3 shadow-xl text-neutral-900 dark:text-neutral-100"
+            >
+                <span className="text-xs font-semibold">Export</span>
+                <div className="mt-2 flex rounded-lg border border-neutral-300 dark:border-zinc-700 overflow-hidden text-xs">
+                    {(["page", "all"] as const).map((value) => (
+                        <button
+                            key={value}
+                            onClick={() => setScope(value)}
+                            className={`flex-1 px-2 py-1 ${scope === value ? "bg-indigo-600 text-white" : "hover:bg-neutral-100 dark:hover:bg-zinc-800"}`}
+                        >
+                            {value === "page" ? "This page" : "All pages"}
+                        </button>
+                    ))}
+                </div>
+                <div className="mt-2 space-y-0.5">
+                    {option("png", "PNG image", <FileImage className="w-3 h-3" />, true)}
+                    {option("svg", "SVG image", <FileImage className="w-3 h-3" />, true)}
+                    {option("pdf", "PDF document", <FileText className="w-3 h-3" />, true)}
+                    {option("bundle", `Board file (${BUNDLE_EXTENSION})`, <Package className="w-3 h-3" />, false)}
+                </div>
+                <div className="mt-3 pt-2 border-t border-neutral-200 dark:border-zinc-800">
+                    <button onClick={() => fileInputRef.current?.click()} disabled={busy !== null} className={OPTION_CLASS}>
+                        {busy === "import" ? <Loader2 className="w-3 h-3 animate-spin" /> : <Upload className="w-3 h-3" />}
+                        Import {BUNDLE_EXTENSION} as new board
+                    </button>
+                    <input
+                        ref={fileInputRef}
+                        type="file"
+                        accept={`${BUNDLE_EXTENSION},application/json`}
+                        className="hidden"
+                        onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            e.target.value = "";
+                            if (file) void handleImport(file);
+                        }}
+                    />
+                </div>
+                {/* Off screen but laid out, so tldraw can measure text while exporting */}
+                <div className="fixed -left-[10000px] top-0 w-[800px] h-[600px] pointer-events-none" aria-hidden>
+                    <ViewerCanvas onEditorMount={setRenderer} />
+                </div>
+            </PopoverPanel>
+        </Popover>
+    );
+}
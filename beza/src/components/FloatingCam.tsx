@@ -1,15 +1,24 @@
 "use client";
 
 import React, { useEffect, useRef, useState } from "react";
-import { Mic, MicOff, Video, VideoOff, Sparkles, Minus, Camera } from "lucide-react";
+import { Mic, MicOff, Video, VideoOff, Sparkles, Minus, Camera, Circle, Square } from "lucide-react";
 
 type Position = { x: number; y: number };
 
 interface FloatingCamProps {
     onStateChange?: (stream: MediaStream | null, useEnhanced: boolean) => void;
+    onCameraToggle?: (videoOn: boolean) => void;
+    // Set while a recording is running
+    recordingStartedAt?: number | null;
+    onToggleRecording?: () => void;
 }
 
-export default function FloatingCam({ onStateChange }: FloatingCamProps) {
+const formatDuration = (ms: number): string => {
+    const seconds = Math.floor(ms / 1000);
+    return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+};
+
+export default function FloatingCam({ onStateChange, onCameraToggle, recordingStartedAt, onToggleRecording }: FloatingCamProps) {
     const videoRef = useRef<HTMLVideoElement | null>(null);
     const canvasRef = useRef<HTMLCanvasElement | null>(null);
     const containerRef = useRef<HTMLDivElement | null>(null);
@@ -25,6 +34,8 @@ export default function FloatingCam({ onStateChange }: FloatingCamProps) {
     const [minimized, setMinimized] = useState(false);
     const rafRef = useRef<number | null>(null);
 
+    const [recordingElapsed, setRecordingElapsed] = useState(0);
+
     const [size, setSize] = useState({ width: 280, height: 180 });
     const CIRCLE_SIZE = 56;
 
@@ -95,11 +106,24 @@ export default function FloatingCam({ onStateChange }: FloatingCamProps) {
         }
     }, [videoOn]);
 
+    // Report camera on/off separately from the stream itself
+    useEffect(() => {
+        onCameraToggle?.(videoOn);
+    }, [videoOn, onCameraToggle]);
+
     // Update parent on enhancement toggle
     useEffect(() => {
         onStateChange?.(streamRef.current, useEnhanced);
     }, [useEnhanced, onStateChange]);
 
+    // Tick the recording duration
+    useEffect(() => {
+        if (!recordingStartedAt) return;
+        setRecordingElapsed(Date.now() - recordingStartedAt);
+        const timer = setInterval(() => setRecordingElapsed(Date.now() - recordingStartedAt), 1000);
+        return () => clearInterval(timer);
+    }, [recordingStartedAt]);
+
     // Fake filter loop (fallback if API fails)
     useEffect(() => {
         const canvas = canvasRef.current;
@@ -179,9 +203,12 @@ export default function FloatingCam({ onStateChange }: FloatingCamProps) {
             {minimized ? (
                 <button
                     onClick={() => setMinimized(false)}
-                    className="w-full h-full rounded-full bg-white/70 dark:bg-zinc-800/70 border border-zinc-200/50 dark:border-zinc-700/50 shadow-lg flex items-center justify-center"
+                    className="relative w-full h-full rounded-full bg-white/70 dark:bg-zinc-800/70 border border-zinc-200/50 dark:border-zinc-700/50 shadow-lg flex items-center justify-center"
                 >
                     <Camera className="w-5 h-5 text-zinc-700 dark:text-zinc-300" />
+                    {recordingStartedAt && (
+                        <span className="absolute top-1 right-1 h-2.5 w-2.5 rounded-full bg-red-500 animate-pulse" aria-label="Recording" />
+                    )}
                 </button>
             ) : (
                 <div
@@ -198,6 +225,15 @@ export default function FloatingCam({ onStateChange }: FloatingCamProps) {
                         ref={canvasRef}
                         className={`absolute inset-0 w-full h-full object-contain ${useEnhanced ? "block" : "hidden"}`}
                     />
+                    {recordingStartedAt && (
+                        <div
+                            className="absolute top-2 left-2 flex items-center gap-1 rounded-full bg-black/60 px-2 py-0.5 text-xs text-white"
+                            aria-live="polite"
+                        >
+                            <span className="h-2 w-2 rounded-full bg-red-500 animate-pulse" />
+                            REC {formatDuration(recordingElapsed)}
+                        </div>
+                    )}
                     <div className="absolute inset-x-0 bottom-2 flex items-center justify-center gap-3">
                         <button
                             onClick={() => setAudioOn((v) => !v)}
@@ -225,6 +261,19 @@ export default function FloatingCam({ onStateChange }: FloatingCamProps) {
                         >
                             <Sparkles className="w-5 h-5 text-indigo-500" />
                         </button>
+                        {onToggleRecording && (
+                            <button
+                                onClick={onToggleRecording}
+                                title={recordingStartedAt ? "Stop recording" : "Record"}
+                                className="p-2 rounded-full bg-white/80 dark:bg-zinc-800/80 hover:bg-zinc-200/70 dark:hover:bg-zinc-700/70 shadow-md"
+                            >
+                                {recordingStartedAt ? (
+                                    <Square className="w-5 h-5 text-red-500 fill-red-500" />
+                                ) : (
+                                    <Circle className="w-5 h-5 text-red-500" />
+                                )}
+                            </button>
+                        )}
                         <button
                             onClick={() => setMinimized(true)}
                             className="p-2 rounded-full bg-white/80 dark:bg-zinc-800/80 hover:bg-zinc-200/70 dark:hover:bg-zinc-700/70 shadow-md"
@@ -0,0 +1,148 @@
+"use client";
+
+import { useState } from "react";
+import Image from "next/image";
+import { toast } from "sonner";
+import { Copy, History, ImagePlus, RotateCw, Video, X } from "lucide-react";
+import type { GenerationHistoryEntry, GenerationStatus } from "@/lib/generation-history";
+import type { GenerationParams } from "@/lib/generation-params";
+import { resolvePlayback } from "@/lib/live-video";
+
+interface GenerationHistoryPanelProps {
+    entries: GenerationHistoryEntry[];
+    onClose: () => void;
+    onRerun: (entry: GenerationHistoryEntry) => void;
+    onInsert: (entry: GenerationHistoryEntry) => void;
+}
+
+const KIND_LABELS: Record<GenerationHistoryEntry["kind"], string> = {
+    enhance: "Enhance",
+    generate: "Generate",
+    render: "Render",
+};
+
+const STATUS_CLASSES: Record<GenerationStatus, string> = {
+    running: "bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300",
+    succeeded: "bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-300",
+    failed: "bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300",
+    cancelled: "bg-neutral-100 text-neutral-600 dark:bg-zinc-800 dark:text-neutral-400",
+};
+
+const PARAM_LABELS: Record<keyof GenerationParams, string> = {
+    guidance_scale: "guidance",
+    num_inference_steps: "steps",
+    strength: "strength",
+    seed: "seed",
+    negative_prompt: "negative",
+};
+
+const describeParams = (params: GenerationParams): string =>
+    Object.entries(params)
+        .map(([key, value]) => `${PARAM_LABELS[key as keyof GenerationParams] ?? key} ${value}`)
+        .join(" · ") || "default settings";
+
+const formatTime = (iso: string): string =>
+    new Date(iso).toLocaleString(undefined, { dateStyle: "short", timeStyle: "short" });
+
+// Outputs live on other hosts, so images skip Next's optimizer. Videos show their
+// first frame; RTMP, and HLS where the browser cannot play it, keep the icon.
+function HistoryPreview({ entry }: { entry: GenerationHistoryEntry }) {
+    const [failed, setFailed] = useState(false);
+    const video = entry.kind !== "render" && entry.outputUrl ? resolvePlayback(entry.outputUrl, "") : null;
+
+    if (entry.kind === "render" && entry.outputUrl) {
+        return <Image src={entry.outputUrl} alt={entry.prompt} fill unoptimized className="object-cover" />;
+    }
+    if (video && !failed) {
+        return (
+            <video
+                src={video.src}
+                preload="metadata"
+                muted
+                playsInline
+                onError={() => setFailed(true)}
+                className="w-full h-full object-cover"
+            />
+        );
+    }
+    return <Video className="w-5 h-5 text-neutral-400" />;
+}
+
+export default function GenerationHistoryPanel({ entries, onClose, onRerun, onInsert }: GenerationHistoryPanelProps) {
+    const copyPrompt = (prompt: string) => {
+        navigator.clipboard?.writeText(prompt);
+        toast.success("Prompt copied!");
+    };
+
+    return (
+        <aside className="fixed top-14 right-48 bottom-10 w-72 z-[9999] flex flex-col bg-white dark:bg-zinc-900 border-l border-neutral-200 dark:border-zinc-800 shadow-xl">
+            <div className="flex items-center justify-between px-3 py-2 border-b border-neutral-200 dark:border-zinc-800">
+                <span className="flex items-center gap-2 text-sm font-semibold">
+                    <History className="w-4 h-4" />
+                    Generation history
+                </span>
+                <button onClick={onClose} title="Close history" className="p-1 rounded hover:bg-neutral-100 dark:hover:bg-zinc-800">
+                    <X className="w-4 h-4" />
+                </button>
+            </div>
+            <ul className="flex-1 overflow-y-auto p-2 space-y-2">
+                {entries.length === 0 && (
+                    <li className="text-xs text-neutral-500 dark:text-neutral-400 p-2">
+                        Nothing generated on this board yet.
+                    </li>
+                )}
+                {entries.map((entry) => (
+                    <li key={entry.id} className="flex gap-2 rounded-lg border border-neutral-200 dark:border-zinc-800 p-2">
+                        <div className="relative w-14 h-14 shrink-0 rounded-md overflow-hidden bg-neutral-100 dark:bg-zinc-800 flex items-center justify-center">
+                            <HistoryPreview entry={entry} />
+                        </div>
+                        <div className="flex-1 min-w-0">
+                            <div className="flex items-center justify-between gap-1">
+                                <span className="text-[10px] uppercase tracking-wide text-neutral-500 dark:text-neutral-400">
+                                    {KIND_LABELS[entry.kind]}
+                                </span>
+                                <span className={`text-[10px] px-1.5 rounded-full ${STATUS_CLASSES[entry.status]}`} title={entry.error ?? undefined}>
+                                    {entry.status}
+                                </span>
+                            </div>
+                            <p className="text-xs font-medium line-clamp-2 break-words" title={entry.prompt}>
+                                {entry.prompt}
+                            </p>
+                            <p className="text-[10px] text-neutral-500 dark:text-neutral-400 truncate" title={describeParams(entry.params)}>
+                                {describeParams(entry.params)}
+                            </p>
+                            <p className="text-[10px] text-neutral-500 dark:text-neutral-400 truncate">
+                                {entry.pipelineId ?? "default pipeline"} · {formatTime(entry.createdAt)}
+                            </p>
+                            <div className="flex gap-1 mt-1">
+                                <button
+                                    onClick={() => onRerun(entry)}
+                                    disabled={entry.status === "running"}
+                                    title="Run again with these settings"
+                                    className="p-1 rounded hover:bg-neutral-100 dark:hover:bg-zinc-800 disabled:opacity-40"
+                                >
+                                    <RotateCw className="w-3 h-3" />
+                                </button>
+                                <button
+                                    onClick={() => copyPrompt(entry.prompt)}
+                                    title="Copy prompt"
+                                    className="p-1 rounded hover:bg-neutral-100 dark:hover:bg-zinc-800"
+                                >
+                                    <Copy className="w-3 h-3" />
+                                </button>
+                                <button
+                                    onClick={() => onInsert(entry)}
+                                    disabled={!entry.outputUrl}
+                                    title="Insert output onto the canvas"
+                                    className="p-1 rounded hover:bg-neutral-100 dark:hover:bg-zinc-800 disabled:opacity-40"
+                                >
+                                    <ImagePlus className="w-3 h-3" />
+                                </button>
+                            </div>
+                        </div>
+                    </li>
+                ))}
+            </ul>
+        </aside>
+    );
+}
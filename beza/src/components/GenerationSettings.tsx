@@ -0,0 +1,145 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Popover, PopoverButton, PopoverPanel } from "@headlessui/react";
+import { Dices, RotateCcw, SlidersHorizontal } from "lucide-react";
+import {
+    MAX_NEGATIVE_PROMPT_LENGTH,
+    NUMERIC_PARAM_LIMITS,
+    parseGenerationParams,
+    type GenerationParams,
+} from "@/lib/generation-params";
+
+interface GenerationSettingsProps {
+    params: GenerationParams;
+    onChange: (params: GenerationParams) => void;
+}
+
+type Draft = Record<keyof GenerationParams, string>;
+
+const NUMERIC_FIELDS: { key: Exclude<keyof GenerationParams, "negative_prompt">; label: string; step: number; placeholder: string }[] = [
+    { key: "guidance_scale", label: "Guidance", step: 0.5, placeholder: "7.5" },
+    { key: "num_inference_steps", label: "Steps", step: 1, placeholder: "default" },
+    { key: "strength", label: "Strength", step: 0.05, placeholder: "default" },
+    { key: "seed", label: "Seed", step: 1, placeholder: "random" },
+];
+
+const INPUT_CLASS =
+    "w-full text-xs border border-neutral-300 dark:border-zinc-800 rounded-lg px-2 py-1 bg-white dark:bg-zinc-800 text-neutral-900 dark:text-neutral-100";
+
+const toDraft = (params: GenerationParams): Draft => ({
+    guidance_scale: params.guidance_scale?.toString() ?? "",
+    num_inference_steps: params.num_inference_steps?.toString() ?? "",
+    seed: params.seed?.toString() ?? "",
+    strength: params.strength?.toString() ?? "",
+    negative_prompt: params.negative_prompt ?? "",
+});
+
+// Empty fields mean "use the server default"
+const fromDraft = (draft: Draft): Record<string, unknown> => ({
+    guidance_scale: draft.guidance_scale.trim() ? Number(draft.guidance_scale) : undefined,
+    num_inference_steps: draft.num_inference_steps.trim() ? Number(draft.num_inference_steps) : undefined,
+    seed: draft.seed.trim() ? Number(draft.seed) : undefined,
+    strength: draft.strength.trim() ? Number(draft.strength) : undefined,
+    negative_prompt: draft.negative_prompt,
+});
+
+export default function GenerationSettings({ params, onChange }: GenerationSettingsProps) {
+    const [draft, setDraft] = useState<Draft>(() => toDraft(params));
+    const [error, setError] = useState<string | null>(null);
+
+    // Follow changes made by collaborators
+    useEffect(() => {
+        setDraft(toDraft(params));
+        setError(null);
+    }, [params]);
+
+    const commit = (next: Draft) => {
+        const parsed = parseGenerationParams(fromDraft(next));
+        if (!parsed.ok) {
+            setError(parsed.error);
+            return;
+        }
+        setError(null);
+        // Blurring an untouched field should not write to the board
+        if (JSON.stringify(parsed.params) !== JSON.stringify(params)) onChange(parsed.params);
+    };
+
+    const setField = (key: keyof GenerationParams, value: string) =>
+        setDraft((prev) => ({ ...prev, [key]: value }));
+
+    const randomizeSeed = () => {
+        const next = { ...draft, seed: Math.floor(Math.random() * NUMERIC_PARAM_LIMITS.seed.max).toString() };
+        setDraft(next);
+        commit(next);
+    };
+
+    const hasOverrides = Object.keys(params).length > 0;
+
+    return (
+        <Popover className="relative">
+            <PopoverButton
+                title="Generation settings"
+                className={`w-8 h-8 flex items-center justify-center rounded-md border border-neutral-300 dark:border-zinc-700 hover:bg-neutral-100 dark:hover:bg-zinc-800 transition-all ${hasOverrides ? "text-indigo-600" : "text-neutral-500"}`}
+            >
+                <SlidersHorizontal className="w-4 h-4" />
+            </PopoverButton>
+            <PopoverPanel
+                anchor="bottom end"
+                className="z-[10000] mt-2 w-64 rounded-xl bg-white dark:bg-zinc-900 border border-neutral-200 dark:border-zinc-800 p-3 shadow-xl text-neutral-900 dark:text-neutral-100"
+            >
+                <div className="flex items-center justify-between mb-2">
+                    <span className="text-xs font-semibold">Generation settings</span>
+                    <button
+                        onClick={() => {
+                            setDraft(toDraft({}));
+                            onChange({});
+                        }}
+                        title="Reset to defaults"
+                        className="p-1 rounded hover:bg-neutral-100 dark:hover:bg-zinc-800"
+                    >
+                        <RotateCcw className="w-3 h-3" />
+                    </button>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                    {NUMERIC_FIELDS.map(({ key, label, step, placeholder }) => (
+                        <label key={key} className="text-xs">
+                            <span className="flex items-center justify-between mb-0.5">
+                                {label}
+                                {key === "seed" && (
+                                    <button onClick={randomizeSeed} title="Pick a random seed" className="p-0.5 rounded hover:bg-neutral-100 dark:hover:bg-zinc-800">
+                                        <Dices className="w-3 h-3" />
+                                    </button>
+                                )}
+                            </span>
+                            <input
+                                type="number"
+                                min={NUMERIC_PARAM_LIMITS[key].min}
+                                max={NUMERIC_PARAM_LIMITS[key].max}
+                                step={step}
+                                placeholder={placeholder}
+                                value={draft[key]}
+                                onChange={(e) => setField(key, e.target.value)}
+                                onBlur={() => commit(draft)}
+                                className={INPUT_CLASS}
+                            />
+                        </label>
+                    ))}
+                </div>
+                <label className="block text-xs mt-2">
+                    <span className="block mb-0.5">Negative prompt</span>
+                    <textarea
+                        rows={2}
+                        maxLength={MAX_NEGATIVE_PROMPT_LENGTH}
+                        placeholder="Things to avoid..."
+                        value={draft.negative_prompt}
+                        onChange={(e) => setField("negative_prompt", e.target.value)}
+                        onBlur={() => commit(draft)}
+                        className={`${INPUT_CLASS} resize-none`}
+                    />
+                </label>
+                {error && <p className="text-xs text-red-500 mt-1">{error}</p>}
+            </PopoverPanel>
+        </Popover>
+    );
+}
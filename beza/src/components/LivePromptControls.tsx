@@ -0,0 +1,86 @@
+"use client";
+
+import { Popover, PopoverButton, PopoverPanel } from "@headlessui/react";
+import { Dices, Radio } from "lucide-react";
+import { MAX_CROSSFADE_MS, randomSeed, type LivePromptSettings } from "@/lib/live-prompt";
+
+interface LivePromptControlsProps {
+    settings: LivePromptSettings;
+    onChange: (settings: LivePromptSettings) => void;
+    // Seed to lock to when none is locked yet, e.g. the board's seed
+    initialSeed?: number;
+    isLive: boolean;
+}
+
+export default function LivePromptControls({ settings, onChange, initialSeed, isLive }: LivePromptControlsProps) {
+    const locked = settings.lockedSeed !== null;
+
+    return (
+        <Popover className="relative">
+            <PopoverButton
+                title="Live prompt changes"
+                className={`w-8 h-8 flex items-center justify-center rounded-md border border-neutral-300 dark:border-zinc-700 hover:bg-neutral-100 dark:hover:bg-zinc-800 transition-all ${isLive && settings.updateWhileTyping ? "text-indigo-600" : "text-neutral-500"}`}
+            >
+                <Radio className="w-4 h-4" />
+            </PopoverButton>
+            <PopoverPanel
+                anchor="bottom end"
+                className="z-[10000] mt-2 w-60 rounded-xl bg-white dark:bg-zinc-900 border border-neutral-200 dark:border-zinc-800 p-3 shadow-xl text-neutral-900 dark:text-neutral-100 space-y-2"
+            >
+                <span className="block text-xs font-semibold">Live prompt changes</span>
+                <p className="text-[10px] text-neutral-500 dark:text-neutral-400">
+                    {isLive
+                        ? "The stream is running; prompt edits go to it directly."
+                        : "Press Enhance or Generate to start the stream."}
+                </p>
+                <label className="flex items-center gap-2 text-xs">
+                    <input
+                        type="checkbox"
+                        checked={settings.updateWhileTyping}
+                        onChange={(e) => onChange({ ...settings, updateWhileTyping: e.target.checked })}
+                    />
+                    Update while typing
+                </label>
+                <label className="block text-xs">
+                    <span className="flex justify-between mb-0.5">
+                        Crossfade
+                        <span>{(settings.crossfadeMs / 1000).toFixed(2)}s</span>
+                    </span>
+                    <input
+                        type="range"
+                        min={0}
+                        max={MAX_CROSSFADE_MS}
+                        step={250}
+                        value={settings.crossfadeMs}
+                        onChange={(e) => onChange({ ...settings, crossfadeMs: Number(e.target.value) })}
+                        className="w-full"
+                    />
+                </label>
+                <div className="flex items-center justify-between text-xs">
+                    <label className="flex items-center gap-2">
+                        <input
+                            type="checkbox"
+                            checked={locked}
+                            onChange={(e) =>
+                                onChange({ ...settings, lockedSeed: e.target.checked ? (initialSeed ?? randomSeed()) : null })
+                            }
+                        />
+                        Lock seed
+                    </label>
+                    {locked && (
+                        <span className="flex items-center gap-1 text-neutral-500 dark:text-neutral-400">
+                            {settings.lockedSeed}
+                            <button
+                                onClick={() => onChange({ ...settings, lockedSeed: randomSeed() })}
+                                title="Pick another seed"
+                                className="p-0.5 rounded hover:bg-neutral-100 dark:hover:bg-zinc-800"
+                            >
+                                <Dices className="w-3 h-3" />
+                            </button>
+                        </span>
+                    )}
+                </div>
+            </PopoverPanel>
+        </Popover>
+    );
+}
@@ -0,0 +1,183 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import {
+    BaseBoxShapeUtil,
+    HTMLContainer,
+    T,
+    stopEventPropagation,
+    useEditor,
+    type RecordProps,
+} from "@tldraw/tldraw";
+import videojs from "video.js";
+import type Player from "video.js/dist/types/player";
+import "video.js/dist/video-js.css";
+import { Pause, Play, Volume2, VolumeX } from "lucide-react";
+import { LIVE_VIDEO_TYPE, resolvePlayback, type LiveVideoShape } from "@/lib/live-video";
+
+// video.js 8 plays HLS through its bundled http-streaming (the successor of
+// videojs-contrib-hls), so no extra source handler is registered here.
+
+const POSTER_WIDTH = 320;
+
+// First frame as a small JPEG. Fails on cross-origin video without CORS, which is fine.
+function capturePoster(video: HTMLVideoElement): string | null {
+    if (!video.videoWidth) return null;
+    const canvas = document.createElement("canvas");
+    canvas.width = POSTER_WIDTH;
+    canvas.height = Math.round((video.videoHeight / video.videoWidth) * POSTER_WIDTH);
+    try {
+        canvas.getContext("2d")?.drawImage(video, 0, 0, canvas.width, canvas.height);
+        return canvas.toDataURL("image/jpeg", 0.7);
+    } catch {
+        return null;
+    }
+}
+
+const CONTROL_CLASS = "p-1.5 rounded-full bg-black/60 text-white hover:bg-black/80";
+
+function LiveVideo({ shape }: { shape: LiveVideoShape }) {
+    const editor = useEditor();
+    const containerRef = useRef<HTMLDivElement | null>(null);
+    const playerRef = useRef<Player | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const { src, playbackId, poster, playing, muted } = shape.props;
+    // Kept while src and playbackId stay the same, so the player is only reloaded when they change
+    const source = useMemo(() => resolvePlayback(src, playbackId), [src, playbackId]);
+
+    // video.js replaces the element it is given, so it gets one of its own
+    useEffect(() => {
+        const container = containerRef.current;
+        if (!container) return;
+        const element = document.createElement("video-js");
+        container.appendChild(element);
+        const player = videojs(element, {
+            controls: false,
+            fill: true,
+            loop: true,
+            muted: true,
+            playsinline: true,
+            preload: "auto",
+        });
+        player.on("error", () => setError(player.error()?.message ?? "Cannot play this video"));
+        playerRef.current = player;
+        return () => {
+            player.dispose();
+            playerRef.current = null;
+        };
+    }, []);
+
+    useEffect(() => {
+        const player = playerRef.current;
+        if (!player) return;
+        setError(null);
+        if (source) player.src(source);
+    }, [source]);
+
+    useEffect(() => {
+        playerRef.current?.poster(poster);
+    }, [poster]);
+
+    useEffect(() => {
+        playerRef.current?.muted(muted);
+    }, [muted]);
+
+    useEffect(() => {
+        const player = playerRef.current;
+        if (!player || !source) return;
+        if (playing) player.play()?.catch(() => { });
+        else player.pause();
+    }, [playing, source]);
+
+    // Keep the first frame as the poster so the shape is not blank before playback
+    useEffect(() => {
+        const player = playerRef.current;
+        if (!player || poster) return;
+        const savePoster = () => {
+            const video = player.tech(true)?.el() as HTMLVideoElement | undefined;
+            const frame = video && capturePoster(video);
+            if (frame && editor.getShape(shape.id)) {
+                editor.run(
+                    () => editor.updateShape<LiveVideoShape>({ id: shape.id, type: LIVE_VIDEO_TYPE, props: { poster: frame } }),
+                    { history: "ignore" }
+                );
+            }
+        };
+        player.one("loadeddata", savePoster);
+        return () => player.off("loadeddata", savePoster);
+    }, [editor, shape.id, poster]);
+
+    const update = (props: Partial<LiveVideoShape["props"]>) =>
+        editor.updateShape<LiveVideoShape>({ id: shape.id, type: LIVE_VIDEO_TYPE, props });
+
+    return (
+        <HTMLContainer
+            style={{ width: shape.props.w, height: shape.props.h, pointerEvents: "all" }}
+            className="relative overflow-hidden rounded-md bg-black"
+        >
+            <div ref={containerRef} className="absolute inset-0" />
+            {(!source || error) && (
+                <div className="absolute inset-0 flex items-center justify-center p-2 text-center text-xs text-white/80">
+                    {error ?? "This stream has no browser playback URL"}
+                </div>
+            )}
+            <div className="absolute bottom-2 left-2 flex gap-1" onPointerDown={stopEventPropagation}>
+                <button
+                    onClick={() => update({ playing: !playing })}
+                    title={playing ? "Pause" : "Play"}
+                    className={CONTROL_CLASS}
+                >
+                    {playing ? <Pause className="w-3 h-3" /> : <Play className="w-3 h-3" />}
+                </button>
+                <button
+                    onClick={() => update({ muted: !muted })}
+                    title={muted ? "Unmute" : "Mute"}
+                    className={CONTROL_CLASS}
+                >
+                    {muted ? <VolumeX className="w-3 h-3" /> : <Volume2 className="w-3 h-3" />}
+                </button>
+            </div>
+        </HTMLContainer>
+    );
+}
+
+export class LiveVideoShapeUtil extends BaseBoxShapeUtil<LiveVideoShape> {
+    static override type = LIVE_VIDEO_TYPE;
+    static override props: RecordProps<LiveVideoShape> = {
+        w: T.nonZeroNumber,
+        h: T.nonZeroNumber,
+        src: T.string,
+        playbackId: T.string,
+        poster: T.string,
+        playing: T.boolean,
+        muted: T.boolean,
+    };
+
+    override isAspectRatioLocked = () => true;
+    override canEdit = () => false;
+
+    getDefaultProps(): LiveVideoShape["props"] {
+        return { w: 320, h: 180, src: "", playbackId: "", poster: "", playing: true, muted: true };
+    }
+
+    component(shape: LiveVideoShape) {
+        return <LiveVideo shape={shape} />;
+    }
+
+    indicator(shape: LiveVideoShape) {
+        return <rect width={shape.props.w} height={shape.props.h} rx={6} ry={6} />;
+    }
+
+    // Exports show the poster, since a stream cannot be put in a file
+    override toSvg(shape: LiveVideoShape) {
+        const { w, h, poster } = shape.props;
+        return poster ? (
+            <image href={poster} width={w} height={h} preserveAspectRatio="xMidYMid slice" />
+        ) : (
+            <rect width={w} height={h} rx={6} ry={6} fill="#000000" />
+        );
+    }
+}
+
+// Shapes this app adds to tldraw; pass to every <Tldraw> that shows a board
+export const customShapeUtils = [LiveVideoShapeUtil];
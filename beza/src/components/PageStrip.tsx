@@ -0,0 +1,111 @@
+"use client";
+
+import { useState } from "react";
+import Image from "next/image";
+import { Copy, Plus, Trash2 } from "lucide-react";
+import type { PageData } from "@/lib/types";
+
+interface PageStripProps {
+    pages: PageData[];
+    activePageId: string;
+    onSelect: (pageId: string) => void;
+    onAdd: () => void;
+    onRename: (pageId: string, name: string) => void;
+    onDuplicate: (pageId: string) => void;
+    onDelete: (pageId: string) => void;
+    onMove: (pageId: string, toIndex: number) => void;
+}
+
+const ACTION_CLASS = "p-0.5 rounded bg-white/90 dark:bg-zinc-900/90 hover:text-indigo-600 disabled:opacity-40";
+
+export default function PageStrip({
+    pages,
+    activePageId,
+    onSelect,
+    onAdd,
+    onRename,
+    onDuplicate,
+    onDelete,
+    onMove,
+}: PageStripProps) {
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [draggedId, setDraggedId] = useState<string | null>(null);
+
+    const finishRename = (pageId: string, name: string) => {
+        setEditingId(null);
+        if (name.trim()) onRename(pageId, name.trim());
+    };
+
+    return (
+        <nav
+            aria-label="Pages"
+            className="fixed bottom-14 left-2 z-[9999] flex items-end gap-2 max-w-[45vw] overflow-x-auto rounded-xl bg-white/80 dark:bg-zinc-900/80 backdrop-blur-md border border-neutral-200 dark:border-zinc-800 p-2 shadow-lg"
+        >
+            {pages.map((page, index) => (
+                <div
+                    key={page.id}
+                    draggable={editingId !== page.id}
+                    onDragStart={() => setDraggedId(page.id)}
+                    onDragEnd={() => setDraggedId(null)}
+                    onDragOver={(e) => draggedId && e.preventDefault()}
+                    onDrop={() => draggedId && onMove(draggedId, index)}
+                    className={`group relative flex-none w-24 ${draggedId === page.id ? "opacity-40" : ""}`}
+                >
+                    <button
+                        onClick={() => onSelect(page.id)}
+                        title={page.name}
+                        className={`relative flex items-center justify-center w-24 h-16 rounded-md overflow-hidden border-2 bg-neutral-100 dark:bg-zinc-800 ${page.id === activePageId ? "border-indigo-500" : "border-transparent hover:border-neutral-300 dark:hover:border-zinc-600"}`}
+                    >
+                        {page.thumbnail ? (
+                            // Thumbnails are data URLs: nothing for Next's optimizer to do
+                            <Image src={page.thumbnail} alt="" fill unoptimized className="object-contain" />
+                        ) : (
+                            <span className="text-[10px] text-neutral-400">Empty</span>
+                        )}
+                    </button>
+                    <div className="absolute top-1 right-1 hidden group-hover:flex gap-0.5">
+                        <button onClick={() => onDuplicate(page.id)} title="Duplicate page" className={ACTION_CLASS}>
+                            <Copy className="w-3 h-3" />
+                        </button>
+                        <button
+                            onClick={() => onDelete(page.id)}
+                            title="Delete page"
+                            disabled={pages.length === 1}
+                            className={ACTION_CLASS}
+                        >
+                            <Trash2 className="w-3 h-3" />
+                        </button>
+                    </div>
+                    {editingId === page.id ? (
+                        <input
+                            autoFocus
+                            aria-label="Page name"
+                            defaultValue={page.name}
+                            onBlur={(e) => finishRename(page.id, e.target.value)}
+                            onKeyDown={(e) => {
+                                if (e.key === "Enter") finishRename(page.id, e.currentTarget.value);
+                                if (e.key === "Escape") setEditingId(null);
+                            }}
+                            className="mt-1 w-full text-[11px] border border-neutral-300 dark:border-zinc-700 rounded px-1 bg-white dark:bg-zinc-800"
+                        />
+                    ) : (
+                        <span
+                            onDoubleClick={() => setEditingId(page.id)}
+                            title="Double-click to rename"
+                            className="mt-1 block truncate text-[11px] text-center"
+                        >
+                            {page.name}
+                        </span>
+                    )}
+                </div>
+            ))}
+            <button
+                onClick={onAdd}
+                title="Add page"
+                className="flex-none w-8 h-16 flex items-center justify-center rounded-md border border-dashed border-neutral-300 dark:border-zinc-700 text-neutral-500 hover:text-indigo-600 hover:border-indigo-400"
+            >
+                <Plus className="w-4 h-4" />
+            </button>
+        </nav>
+    );
+}
@@ -0,0 +1,92 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Users } from "lucide-react";
+import { Participant, getInitials } from "@/lib/presence";
+
+const MAX_VISIBLE = 5;
+
+interface ParticipantListProps {
+    participants: Participant[];
+    selfId: string | null;
+    onRename: (name: string) => void;
+}
+
+export default function ParticipantList({ participants, selfId, onRename }: ParticipantListProps) {
+    const [isEditing, setIsEditing] = useState(false);
+    const [editName, setEditName] = useState("");
+    const inputRef = useRef<HTMLInputElement>(null);
+
+    // Show ourselves first
+    const sorted = [...participants].sort((a, b) => Number(b.id === selfId) - Number(a.id === selfId));
+    const visible = sorted.slice(0, MAX_VISIBLE);
+    const hidden = sorted.slice(MAX_VISIBLE);
+    const self = participants.find((p) => p.id === selfId);
+
+    useEffect(() => {
+        if (isEditing) inputRef.current?.focus();
+    }, [isEditing]);
+
+    const saveName = () => {
+        if (editName.trim() && editName.trim() !== self?.name) {
+            onRename(editName.trim());
+        }
+        setIsEditing(false);
+    };
+
+    if (participants.length === 0) return null;
+
+    return (
+        <div className="flex items-center gap-2" role="list" aria-label="Participants">
+            {isEditing ? (
+                <input
+                    ref={inputRef}
+                    value={editName}
+                    onChange={(e) => setEditName(e.target.value)}
+                    onBlur={saveName}
+                    onKeyDown={(e) => {
+                        if (e.key === "Enter") saveName();
+                        else if (e.key === "Escape") setIsEditing(false);
+                    }}
+                    aria-label="Your display name"
+                    className="text-xs border border-neutral-300 dark:border-zinc-800 rounded-lg px-2 py-1 w-28 bg-white dark:bg-zinc-800 text-neutral-900 dark:text-neutral-100"
+                />
+            ) : null}
+            <div className="flex -space-x-2">
+                {visible.map((participant) => {
+                    const isSelf = participant.id === selfId;
+                    return (
+                        <button
+                            key={participant.id}
+                            role="listitem"
+                            title={isSelf ? `${participant.name} (you) - click to rename` : participant.name}
+                            aria-label={isSelf ? `${participant.name} (you)` : participant.name}
+                            disabled={!isSelf}
+                            onClick={() => {
+                                setEditName(participant.name);
+                                setIsEditing(true);
+                            }}
+                            className="w-7 h-7 rounded-full border-2 border-white dark:border-zinc-900 flex items-center justify-center text-[10px] font-semibold text-white disabled:cursor-default"
+                            style={{ backgroundColor: participant.color }}
+                        >
+                            {getInitials(participant.name)}
+                        </button>
+                    );
+                })}
+                {hidden.length > 0 && (
+                    <div
+                        role="listitem"
+                        title={hidden.map((p) => p.name).join(", ")}
+                        className="w-7 h-7 rounded-full border-2 border-white dark:border-zinc-900 bg-neutral-300 dark:bg-zinc-700 flex items-center justify-center text-[10px] font-semibold"
+                    >
+                        +{hidden.length}
+                    </div>
+                )}
+            </div>
+            <span className="flex items-center gap-1 text-xs text-neutral-500 dark:text-neutral-400">
+                <Users className="w-3 h-3" aria-hidden="true" />
+                {participants.length}
+            </span>
+        </div>
+    );
+}
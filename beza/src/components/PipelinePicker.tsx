@@ -0,0 +1,72 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { DaydreamPipelineRegistry } from "@/lib/types";
+import type { DaydreamBoardSettings } from "@/lib/board-settings";
+
+interface PipelinePickerProps {
+    settings: DaydreamBoardSettings;
+    onChange: (changes: Partial<DaydreamBoardSettings>) => void;
+}
+
+const SELECT_CLASS =
+    "text-xs border border-neutral-300 dark:border-zinc-800 rounded-lg px-2 py-1 max-w-32 bg-white dark:bg-zinc-800 text-neutral-900 dark:text-neutral-100";
+
+export default function PipelinePicker({ settings, onChange }: PipelinePickerProps) {
+    const [registry, setRegistry] = useState<DaydreamPipelineRegistry | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        fetch("/api/daydream/pipelines")
+            .then((res) => {
+                if (!res.ok) throw new Error(`Failed to load pipelines: ${res.status}`);
+                return res.json() as Promise<DaydreamPipelineRegistry>;
+            })
+            .then((loaded) => !cancelled && setRegistry(loaded))
+            .catch((err) => console.error(err));
+        return () => {
+            cancelled = true;
+        };
+    }, []);
+
+    if (!registry) return null;
+
+    // A board may still point at something that was removed from the registry
+    const pipelineId = registry.pipelines.some((p) => p.id === settings.pipelineId)
+        ? settings.pipelineId
+        : registry.defaultPipelineId;
+    const modelId = registry.models.some((m) => m.id === settings.modelId)
+        ? settings.modelId
+        : registry.defaultModelId;
+
+    return (
+        <>
+            <select
+                aria-label="Live video pipeline"
+                title="Pipeline for enhance and generate"
+                value={pipelineId}
+                onChange={(e) => onChange({ pipelineId: e.target.value })}
+                className={SELECT_CLASS}
+            >
+                {registry.pipelines.map((p) => (
+                    <option key={p.id} value={p.id} title={p.description}>
+                        {p.name}
+                    </option>
+                ))}
+            </select>
+            <select
+                aria-label="Render model"
+                title="Model for AI render selection"
+                value={modelId}
+                onChange={(e) => onChange({ modelId: e.target.value })}
+                className={SELECT_CLASS}
+            >
+                {registry.models.map((m) => (
+                    <option key={m.id} value={m.id} title={m.description}>
+                        {m.name}
+                    </option>
+                ))}
+            </select>
+        </>
+    );
+}
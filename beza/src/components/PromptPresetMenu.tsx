@@ -0,0 +1,264 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Popover, PopoverButton, PopoverPanel } from "@headlessui/react";
+import { toast } from "sonner";
+import { BookMarked, Download, Plus, Share2, Trash2, Upload, UserRound } from "lucide-react";
+import { downloadBlob } from "@/lib/download";
+import type { GenerationParams } from "@/lib/generation-params";
+import {
+    MAX_PRESET_NAME_LENGTH,
+    MAX_TEMPLATE_LENGTH,
+    createPreset,
+    exportPresets,
+    fillTemplate,
+    getTemplateVariables,
+    loadUserPresets,
+    parsePresetFile,
+    saveUserPresets,
+    type PresetScope,
+    type PromptPreset,
+} from "@/lib/prompt-presets";
+
+export type PresetTarget = "enhance" | "generate";
+
+interface PromptPresetMenuProps {
+    boardPresets: PromptPreset[];
+    onBoardPresetsChange: (presets: PromptPreset[]) => void;
+    // Saved with new presets as their default params
+    currentParams: GenerationParams;
+    onApply: (target: PresetTarget, prompt: string, params: GenerationParams) => void;
+}
+
+const INPUT_CLASS =
+    "w-full text-xs border border-neutral-300 dark:border-zinc-800 rounded-lg px-2 py-1 bg-white dark:bg-zinc-800 text-neutral-900 dark:text-neutral-100";
+const ICON_BUTTON_CLASS = "p-1 rounded hover:bg-neutral-100 dark:hover:bg-zinc-800";
+
+export default function PromptPresetMenu({ boardPresets, onBoardPresetsChange, currentParams, onApply }: PromptPresetMenuProps) {
+    const [userPresets, setUserPresets] = useState<PromptPreset[]>([]);
+    const [selected, setSelected] = useState<{ scope: PresetScope; id: string } | null>(null);
+    const [values, setValues] = useState<Record<string, string>>({});
+    const [draft, setDraft] = useState<{ name: string; template: string; shared: boolean } | null>(null);
+    const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+    // localStorage is only there after mount
+    useEffect(() => setUserPresets(loadUserPresets()), []);
+
+    const updateUserPresets = (presets: PromptPreset[]) => {
+        setUserPresets(presets);
+        saveUserPresets(presets);
+    };
+
+    const presetsFor = (scope: PresetScope) => (scope === "user" ? userPresets : boardPresets);
+    const setPresetsFor = (scope: PresetScope, presets: PromptPreset[]) =>
+        scope === "user" ? updateUserPresets(presets) : onBoardPresetsChange(presets);
+
+    const selectedPreset = selected ? presetsFor(selected.scope).find((p) => p.id === selected.id) : undefined;
+    const variables = selectedPreset ? getTemplateVariables(selectedPreset.template) : [];
+
+    const select = (scope: PresetScope, id: string) => {
+        setSelected(selected?.id === id ? null : { scope, id });
+        setValues({});
+    };
+
+    const remove = (scope: PresetScope, id: string) => {
+        setPresetsFor(scope, presetsFor(scope).filter((p) => p.id !== id));
+        if (selected?.id === id) setSelected(null);
+    };
+
+    // Copies between "mine" and the board; the original stays where it was
+    const copyTo = (scope: PresetScope, preset: PromptPreset) => {
+        setPresetsFor(scope, [...presetsFor(scope), createPreset(preset)]);
+        toast.success(scope === "board" ? `Shared "${preset.name}" with the board` : `Saved "${preset.name}" to your presets`);
+    };
+
+    const saveDraft = () => {
+        if (!draft?.name.trim() || !draft.template.trim()) return;
+        const scope: PresetScope = draft.shared ? "board" : "user";
+        setPresetsFor(scope, [
+            ...presetsFor(scope),
+            createPreset({ name: draft.name.trim(), template: draft.template.trim(), params: currentParams }),
+        ]);
+        setDraft(null);
+    };
+
+    const handleImport = async (file: File) => {
+        const parsed = parsePresetFile(await file.text());
+        if (!parsed.ok) {
+            toast.error(`Could not import presets: ${parsed.error}`);
+            return;
+        }
+        updateUserPresets([...userPresets, ...parsed.presets]);
+        toast.success(`Imported ${parsed.presets.length} preset(s)`);
+    };
+
+    const handleExport = (scope: PresetScope) =>
+        downloadBlob(
+            scope === "user" ? "prompt-presets.json" : "board-prompt-presets.json",
+            new Blob([exportPresets(presetsFor(scope))], { type: "application/json" })
+        );
+
+    const apply = (target: PresetTarget) => {
+        if (!selectedPreset) return;
+        onApply(target, fillTemplate(selectedPreset.template, values), selectedPreset.params);
+    };
+
+    const renderSection = (scope: PresetScope, title: string) => (
+        <div className="mt-2">
+            <div className="flex items-center justify-between mb-1">
+                <span className="text-[10px] uppercase tracking-wide text-neutral-500 dark:text-neutral-400">{title}</span>
+                <button
+                    onClick={() => handleExport(scope)}
+                    disabled={presetsFor(scope).length === 0}
+                    title={`Export ${title.toLowerCase()} as JSON`}
+                    className={`${ICON_BUTTON_CLASS} disabled:opacity-40`}
+                >
+                    <Download className="w-3 h-3" />
+                </button>
+            </div>
+            {presetsFor(scope).length === 0 && <p className="text-xs text-neutral-500 dark:text-neutral-400">None yet.</p>}
+            <ul className="space-y-1">
+                {presetsFor(scope).map((preset) => (
+                    <li
+                        key={preset.id}
+                        className={`flex items-center gap-1 rounded-lg px-2 py-1 ${selected?.id === preset.id ? "bg-indigo-50 dark:bg-indigo-900/30" : "hover:bg-neutral-50 dark:hover:bg-zinc-800/60"}`}
+                    >
+                        <button onClick={() => select(scope, preset.id)} className="flex-1 min-w-0 text-left" title={preset.template}>
+                            <span className="block text-xs font-medium truncate">{preset.name}</span>
+                            <span className="block text-[10px] text-neutral-500 dark:text-neutral-400 truncate">{preset.template}</span>
+                        </button>
+                        <button
+                            onClick={() => copyTo(scope === "user" ? "board" : "user", preset)}
+                            title={scope === "user" ? "Share with this board" : "Save to my presets"}
+                            className={ICON_BUTTON_CLASS}
+                        >
+                            {scope === "user" ? <Share2 className="w-3 h-3" /> : <UserRound className="w-3 h-3" />}
+                        </button>
+                        <button onClick={() => remove(scope, preset.id)} title="Delete preset" className={ICON_BUTTON_CLASS}>
+                            <Trash2 className="w-3 h-3" />
+                        </button>
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+
+    return (
+        <Popover className="relative">
+            <PopoverButton
+                title="Prompt presets"
+                className="w-8 h-8 flex items-center justify-center rounded-md border border-neutral-300 dark:border-zinc-700 hover:bg-neutral-100 dark:hover:bg-zinc-800 transition-all text-neutral-500"
+            >
+                <BookMarked className="w-4 h-4" />
+            </PopoverButton>
+            <PopoverPanel
+                anchor="bottom end"
+                className="z-[10000] mt-2 w-80 max-h-[70vh] overflow-y-auto rounded-xl bg-white dark:bg-zinc-900 border border-neutral-200 dark:border-zinc-800 p-3 shadow-xl text-neutral-900 dark:text-neutral-100"
+            >
+                <div className="flex items-center justify-between">
+                    <span className="text-xs font-semibold">Prompt presets</span>
+                    <span className="flex gap-1">
+                        <button onClick={() => fileInputRef.current?.click()} title="Import presets from JSON" className={ICON_BUTTON_CLASS}>
+                            <Upload className="w-3 h-3" />
+                        </button>
+                        <button
+                            onClick={() => setDraft(draft ? null : { name: "", template: "", shared: false })}
+                            title="New preset"
+                            className={ICON_BUTTON_CLASS}
+                        >
+                            <Plus className="w-3 h-3" />
+                        </button>
+                    </span>
+                    <input
+                        ref={fileInputRef}
+                        type="file"
+                        accept="application/json,.json"
+                        className="hidden"
+                        onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            e.target.value = "";
+                            if (file) void handleImport(file);
+                        }}
+                    />
+                </div>
+
+                {draft && (
+                    <div className="mt-2 space-y-1 rounded-lg border border-neutral-200 dark:border-zinc-800 p-2">
+                        <input
+                            aria-label="Preset name"
+                            placeholder="Name"
+                            maxLength={MAX_PRESET_NAME_LENGTH}
+                            value={draft.name}
+                            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                            className={INPUT_CLASS}
+                        />
+                        <textarea
+                            aria-label="Prompt template"
+                            rows={2}
+                            placeholder="{subject} as a watercolor painting"
+                            maxLength={MAX_TEMPLATE_LENGTH}
+                            value={draft.template}
+                            onChange={(e) => setDraft({ ...draft, template: e.target.value })}
+                            className={`${INPUT_CLASS} resize-none`}
+                        />
+                        <p className="text-[10px] text-neutral-500 dark:text-neutral-400">
+                            Saves the current generation settings with it.
+                        </p>
+                        <div className="flex items-center justify-between">
+                            <label className="flex items-center gap-1 text-xs">
+                                <input
+                                    type="checkbox"
+                                    checked={draft.shared}
+                                    onChange={(e) => setDraft({ ...draft, shared: e.target.checked })}
+                                />
+                                Share with this board
+                            </label>
+                            <button
+                                onClick={saveDraft}
+                                disabled={!draft.name.trim() || !draft.template.trim()}
+                                className="text-xs px-2 py-1 rounded-lg bg-indigo-600 text-white disabled:opacity-40"
+                            >
+                                Save
+                            </button>
+                        </div>
+                    </div>
+                )}
+
+                {renderSection("user", "My presets")}
+                {renderSection("board", "Board presets")}
+
+                {selectedPreset && (
+                    <div className="mt-3 pt-2 border-t border-neutral-200 dark:border-zinc-800 space-y-1">
+                        {variables.map((name) => (
+                            <label key={name} className="block text-xs">
+                                <span className="block mb-0.5">{name}</span>
+                                <input
+                                    value={values[name] ?? ""}
+                                    onChange={(e) => setValues((prev) => ({ ...prev, [name]: e.target.value }))}
+                                    className={INPUT_CLASS}
+                                />
+                            </label>
+                        ))}
+                        <p className="text-[10px] text-neutral-500 dark:text-neutral-400 break-words">
+                            {fillTemplate(selectedPreset.template, values)}
+                        </p>
+                        <div className="flex gap-1">
+                            <button
+                                onClick={() => apply("enhance")}
+                                className="flex-1 text-xs px-2 py-1 rounded-lg bg-gradient-to-r from-indigo-600 to-fuchsia-500 text-white"
+                            >
+                                Use for enhance
+                            </button>
+                            <button
+                                onClick={() => apply("generate")}
+                                className="flex-1 text-xs px-2 py-1 rounded-lg bg-gradient-to-r from-indigo-600 to-fuchsia-500 text-white"
+                            >
+                                Use for generate
+                            </button>
+                        </div>
+                    </div>
+                )}
+            </PopoverPanel>
+        </Popover>
+    );
+}
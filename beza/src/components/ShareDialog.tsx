@@ -0,0 +1,112 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Dialog, DialogPanel, DialogTitle } from "@headlessui/react";
+import { toast } from "sonner";
+import { Copy, RefreshCw, X } from "lucide-react";
+
+export interface ShareLinks {
+    editUrl: string;
+    viewUrl: string;
+}
+
+type LinkRole = "edit" | "view";
+
+interface ShareDialogProps {
+    open: boolean;
+    onClose: () => void;
+    loadLinks: () => Promise<ShareLinks>;
+    revokeLink: (role: LinkRole) => Promise<ShareLinks>;
+}
+
+const LINK_ROWS: { role: LinkRole; label: string; description: string }[] = [
+    { role: "edit", label: "Edit link", description: "Anyone with this link can draw on the board." },
+    { role: "view", label: "View link", description: "Anyone with this link can watch the board live." },
+];
+
+export default function ShareDialog({ open, onClose, loadLinks, revokeLink }: ShareDialogProps) {
+    const [links, setLinks] = useState<ShareLinks | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [revoking, setRevoking] = useState<LinkRole | null>(null);
+
+    useEffect(() => {
+        if (!open) return;
+        let cancelled = false;
+        setError(null);
+        loadLinks()
+            .then((loaded) => !cancelled && setLinks(loaded))
+            .catch((err: Error) => !cancelled && setError(err.message));
+        return () => {
+            cancelled = true;
+        };
+    }, [open, loadLinks]);
+
+    const copyLink = (url: string) => {
+        navigator.clipboard?.writeText(url);
+        toast.success("Link copied!");
+    };
+
+    const handleRevoke = async (role: LinkRole) => {
+        setRevoking(role);
+        try {
+            setLinks(await revokeLink(role));
+            toast.success(`Old ${role} link revoked`);
+        } catch (err) {
+            toast.error((err as Error).message);
+        } finally {
+            setRevoking(null);
+        }
+    };
+
+    return (
+        <Dialog open={open} onClose={onClose} className="relative z-[10000]">
+            <div className="fixed inset-0 bg-black/30" aria-hidden="true" />
+            <div className="fixed inset-0 flex items-center justify-center p-4">
+                <DialogPanel className="w-full max-w-md rounded-xl bg-white dark:bg-zinc-900 border border-neutral-200 dark:border-zinc-800 p-4 shadow-xl text-neutral-900 dark:text-neutral-100">
+                    <div className="flex items-center justify-between mb-3">
+                        <DialogTitle className="text-sm font-semibold">Share board</DialogTitle>
+                        <button onClick={onClose} aria-label="Close" className="p-1 rounded hover:bg-neutral-100 dark:hover:bg-zinc-800">
+                            <X className="w-4 h-4" />
+                        </button>
+                    </div>
+                    {error && <p className="text-xs text-red-500 mb-2">{error}</p>}
+                    {!links && !error && <p className="text-xs text-neutral-500">Loading links...</p>}
+                    {links &&
+                        LINK_ROWS.map(({ role, label, description }) => {
+                            const url = role === "edit" ? links.editUrl : links.viewUrl;
+                            return (
+                                <div key={role} className="mb-4 last:mb-0">
+                                    <div className="text-xs font-medium">{label}</div>
+                                    <div className="text-xs text-neutral-500 dark:text-neutral-400 mb-1">{description}</div>
+                                    <div className="flex items-center gap-2">
+                                        <input
+                                            readOnly
+                                            value={url}
+                                            aria-label={label}
+                                            onFocus={(e) => e.target.select()}
+                                            className="flex-1 text-xs border border-neutral-300 dark:border-zinc-800 rounded-lg px-2 py-1 bg-white dark:bg-zinc-800"
+                                        />
+                                        <button
+                                            onClick={() => copyLink(url)}
+                                            title={`Copy ${label.toLowerCase()}`}
+                                            className="w-8 h-8 flex items-center justify-center rounded-md border border-neutral-300 dark:border-zinc-700 hover:bg-neutral-100 dark:hover:bg-zinc-800"
+                                        >
+                                            <Copy className="w-4 h-4 text-indigo-600" />
+                                        </button>
+                                        <button
+                                            onClick={() => handleRevoke(role)}
+                                            disabled={revoking !== null}
+                                            title={`Revoke ${label.toLowerCase()} and create a new one`}
+                                            className="w-8 h-8 flex items-center justify-center rounded-md border border-neutral-300 dark:border-zinc-700 hover:bg-neutral-100 dark:hover:bg-zinc-800 disabled:opacity-40"
+                                        >
+                                            <RefreshCw className={`w-4 h-4 text-red-500 ${revoking === role ? "animate-spin" : ""}`} />
+                                        </button>
+                                    </div>
+                                </div>
+                            );
+                        })}
+                </DialogPanel>
+            </div>
+        </Dialog>
+    );
+}
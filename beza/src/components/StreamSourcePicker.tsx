@@ -0,0 +1,57 @@
+"use client";
+
+import { useValue, type Editor, type TLFrameShape, type TLShapeId } from "@tldraw/tldraw";
+import type { CanvasCaptureTarget } from "@/lib/canvas-capture";
+
+// What the live pipeline is fed: the webcam, or part of the board
+export type StreamSource = { kind: "camera" } | CanvasCaptureTarget;
+
+interface StreamSourcePickerProps {
+    editor: Editor | null;
+    value: StreamSource;
+    onChange: (source: StreamSource) => void;
+}
+
+const FRAME_PREFIX = "frame:";
+
+const toOptionValue = (source: StreamSource): string =>
+    source.kind === "frame" ? `${FRAME_PREFIX}${source.frameId}` : source.kind;
+
+const fromOptionValue = (value: string): StreamSource =>
+    value.startsWith(FRAME_PREFIX)
+        ? { kind: "frame", frameId: value.slice(FRAME_PREFIX.length) as TLShapeId }
+        : { kind: value as "camera" | "viewport" };
+
+export default function StreamSourcePicker({ editor, value, onChange }: StreamSourcePickerProps) {
+    const frames = useValue(
+        "frames on page",
+        () =>
+            editor
+                ?.getCurrentPageShapes()
+                .filter((shape): shape is TLFrameShape => editor.isShapeOfType<TLFrameShape>(shape, "frame"))
+                .map((shape) => ({ id: shape.id, name: shape.props.name || "Untitled" })) ?? [],
+        [editor]
+    );
+
+    return (
+        <select
+            aria-label="Live video source"
+            title="What the live pipeline sees"
+            value={toOptionValue(value)}
+            onChange={(e) => onChange(fromOptionValue(e.target.value))}
+            className="text-xs border border-neutral-300 dark:border-zinc-800 rounded-lg px-2 py-1 max-w-32 bg-white dark:bg-zinc-800 text-neutral-900 dark:text-neutral-100"
+        >
+            <option value="camera">Webcam</option>
+            <option value="viewport">Canvas view</option>
+            {frames.map((frame) => (
+                <option key={frame.id} value={`${FRAME_PREFIX}${frame.id}`}>
+                    Frame: {frame.name}
+                </option>
+            ))}
+            {/* Keep a deleted frame selectable until the user picks something else */}
+            {value.kind === "frame" && !frames.some((f) => f.id === value.frameId) && (
+                <option value={toOptionValue(value)}>Frame (deleted)</option>
+            )}
+        </select>
+    );
+}
@@ -0,0 +1,119 @@
+"use client";
+
+import { useState } from "react";
+import Image from "next/image";
+import { Clock, Eye, FilePlus2, GitBranch, Loader2, RotateCcw, Save, X } from "lucide-react";
+import type { CheckpointInfo } from "@/lib/board-checkpoints";
+
+interface VersionHistoryPanelProps {
+    pageName: string;
+    checkpoints: CheckpointInfo[];
+    isLoading: boolean;
+    onSave: (name: string) => void;
+    onPreview: (checkpoint: CheckpointInfo) => void;
+    onRestore: (checkpoint: CheckpointInfo) => void;
+    onFork: (checkpoint: CheckpointInfo) => void;
+    onClose: () => void;
+}
+
+export const checkpointLabel = (checkpoint: CheckpointInfo): string =>
+    checkpoint.name ?? `Auto-save ${formatTime(checkpoint.createdAt)}`;
+
+const formatTime = (iso: string): string =>
+    new Date(iso).toLocaleString(undefined, { dateStyle: "short", timeStyle: "short" });
+
+const ACTION_CLASS = "p-1 rounded hover:bg-neutral-100 dark:hover:bg-zinc-800";
+
+export default function VersionHistoryPanel({
+    pageName,
+    checkpoints,
+    isLoading,
+    onSave,
+    onPreview,
+    onRestore,
+    onFork,
+    onClose,
+}: VersionHistoryPanelProps) {
+    const [name, setName] = useState("");
+
+    const save = () => {
+        if (!name.trim()) return;
+        onSave(name.trim());
+        setName("");
+    };
+
+    return (
+        <aside className="fixed top-14 right-48 bottom-10 w-72 z-[9999] flex flex-col bg-white dark:bg-zinc-900 border-l border-neutral-200 dark:border-zinc-800 shadow-xl">
+            <div className="flex items-center justify-between px-3 py-2 border-b border-neutral-200 dark:border-zinc-800">
+                <span className="flex items-center gap-2 text-sm font-semibold min-w-0">
+                    <Clock className="w-4 h-4 shrink-0" />
+                    <span className="truncate">Versions of {pageName}</span>
+                </span>
+                <button onClick={onClose} title="Close versions" className="p-1 rounded hover:bg-neutral-100 dark:hover:bg-zinc-800">
+                    <X className="w-4 h-4" />
+                </button>
+            </div>
+            <div className="flex gap-1 p-2 border-b border-neutral-200 dark:border-zinc-800">
+                <input
+                    aria-label="Checkpoint name"
+                    placeholder="Name this version..."
+                    value={name}
+                    maxLength={100}
+                    onChange={(e) => setName(e.target.value)}
+                    onKeyDown={(e) => e.key === "Enter" && save()}
+                    className="flex-1 text-xs border border-neutral-300 dark:border-zinc-800 rounded-lg px-2 py-1 bg-white dark:bg-zinc-800"
+                />
+                <button
+                    onClick={save}
+                    disabled={!name.trim()}
+                    title="Save checkpoint"
+                    className="px-2 rounded-lg bg-indigo-600 text-white disabled:opacity-40"
+                >
+                    <Save className="w-3 h-3" />
+                </button>
+            </div>
+            <ul className="flex-1 overflow-y-auto p-2 space-y-2">
+                {isLoading && (
+                    <li className="flex justify-center p-2">
+                        <Loader2 className="w-4 h-4 animate-spin text-neutral-400" />
+                    </li>
+                )}
+                {!isLoading && checkpoints.length === 0 && (
+                    <li className="text-xs text-neutral-500 dark:text-neutral-400 p-2">
+                        No versions of this page yet. They are saved every few minutes while you edit.
+                    </li>
+                )}
+                {checkpoints.map((checkpoint) => (
+                    <li key={checkpoint.id} className="flex gap-2 rounded-lg border border-neutral-200 dark:border-zinc-800 p-2">
+                        <div className="relative w-14 h-14 shrink-0 rounded-md overflow-hidden bg-neutral-100 dark:bg-zinc-800 flex items-center justify-center">
+                            {checkpoint.thumbnail ? (
+                                <Image src={checkpoint.thumbnail} alt="" fill unoptimized className="object-contain" />
+                            ) : (
+                                <FilePlus2 className="w-5 h-5 text-neutral-400" />
+                            )}
+                        </div>
+                        <div className="flex-1 min-w-0">
+                            <p className="text-xs font-medium truncate" title={checkpointLabel(checkpoint)}>
+                                {checkpoint.name ?? "Auto-save"}
+                            </p>
+                            <p className="text-[10px] text-neutral-500 dark:text-neutral-400">
+                                {formatTime(checkpoint.createdAt)}
+                            </p>
+                            <div className="flex gap-1 mt-1">
+                                <button onClick={() => onPreview(checkpoint)} title="Preview" className={ACTION_CLASS}>
+                                    <Eye className="w-3 h-3" />
+                                </button>
+                                <button onClick={() => onRestore(checkpoint)} title="Restore this version" className={ACTION_CLASS}>
+                                    <RotateCcw className="w-3 h-3" />
+                                </button>
+                                <button onClick={() => onFork(checkpoint)} title="Open as a new page" className={ACTION_CLASS}>
+                                    <GitBranch className="w-3 h-3" />
+                                </button>
+                            </div>
+                        </div>
+                    </li>
+                ))}
+            </ul>
+        </aside>
+    );
+}
@@ -0,0 +1,65 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import dynamic from "next/dynamic";
+import { Editor, TLUnknownShape } from "@tldraw/tldraw";
+import "@tldraw/tldraw/tldraw.css";
+import { customShapeUtils } from "./LiveVideoShape";
+import { boardMigrations } from "@/lib/board-migrations";
+
+// Stable across renders; tldraw rebuilds the store when it changes
+const BOARD_MIGRATIONS = [boardMigrations];
+
+const Tldraw = dynamic(() => import("@tldraw/tldraw").then((mod) => mod.Tldraw), {
+    ssr: false,
+});
+
+interface ViewerCanvasProps {
+    onEditorMount: (editor: Editor) => void;
+}
+
+// Read-only tldraw instance: no UI, no tools, only panning and zooming
+export default function ViewerCanvas({ onEditorMount }: ViewerCanvasProps) {
+    const [isDarkMode, setIsDarkMode] = useState(false);
+
+    useEffect(() => {
+        const updateDarkMode = () => {
+            setIsDarkMode(document.documentElement.classList.contains("dark"));
+        };
+        updateDarkMode();
+        const observer = new MutationObserver(updateDarkMode);
+        observer.observe(document.documentElement, {
+            attributes: true,
+            attributeFilter: ["class"],
+        });
+        return () => observer.disconnect();
+    }, []);
+
+    const handleMount = useCallback(
+        (editor: Editor) => {
+            editor.updateInstanceState({ isReadonly: true });
+            editor.setCurrentTool("hand");
+            onEditorMount(editor);
+        },
+        [onEditorMount]
+    );
+
+    return (
+        <div className="absolute inset-0" role="region" aria-label="Board (view only)">
+            <Tldraw
+                className={isDarkMode ? "dark" : ""}
+                hideUi
+                shapeUtils={customShapeUtils}
+                migrations={BOARD_MIGRATIONS}
+                onMount={handleMount}
+                getShapeVisibility={(shape: TLUnknownShape) =>
+                    shape.meta?.force_show
+                        ? "visible"
+                        : shape.meta?.hidden
+                            ? "hidden"
+                            : "inherit"
+                }
+            />
+        </div>
+    );
+}
@@ -0,0 +1,189 @@
+import {
+    AssetRecordType,
+    Box,
+    Editor,
+    TLImageShape,
+    TLShapeId,
+    createShapeId,
+} from "@tldraw/tldraw";
+import { readApiError } from "@/lib/api-errors";
+import { oneshotResponse, parseResponse } from "@/lib/api-schemas";
+import type { GenerationParams } from "@/lib/generation-params";
+
+// Stored in the result shape's meta so a render can be re-run from its sources
+export interface AiRenderMeta {
+    sourceShapeIds: TLShapeId[];
+    prompt: string;
+    [key: string]: string | string[];
+}
+
+const RESULT_GAP = 40;
+
+export const blobToDataUrl = (blob: Blob): Promise<string> =>
+    new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = reject;
+        reader.readAsDataURL(blob);
+    });
+
+export async function exportShapesAsDataUrl(
+    editor: Editor,
+    shapeIds: TLShapeId[]
+): Promise<string | null> {
+    try {
+        const { blob } = await editor.toImage(shapeIds, {
+            format: "png",
+            background: true,
+            quality: 1,
+        });
+        if (!blob) return null;
+        return await blobToDataUrl(blob);
+    } catch (err) {
+        console.error("Export error:", err);
+        return null;
+    }
+}
+
+const loadImageSize = (src: string): Promise<{ w: number; h: number }> =>
+    new Promise((resolve, reject) => {
+        const img = new Image();
+        img.crossOrigin = "anonymous";
+        img.onload = () => resolve({ w: img.naturalWidth, h: img.naturalHeight });
+        img.onerror = () => reject(new Error("Failed to load rendered image"));
+        img.src = src;
+    });
+
+export function getAiRenderMeta(editor: Editor, shapeId: TLShapeId): AiRenderMeta | null {
+    const shape = editor.getShape(shapeId);
+    const meta = shape?.meta.aiRender as AiRenderMeta | undefined;
+    return shape?.type === "image" && meta && Array.isArray(meta.sourceShapeIds) ? meta : null;
+}
+
+// Sources of a previous render that are still on the board
+export const getLiveSourceIds = (editor: Editor, meta: AiRenderMeta): TLShapeId[] =>
+    meta.sourceShapeIds.filter((id) => editor.getShape(id));
+
+async function requestRender(
+    editor: Editor,
+    shapeIds: TLShapeId[],
+    prompt: string,
+    { modelId, params }: Omit<RenderOptions, "target">
+): Promise<string> {
+    const image = await exportShapesAsDataUrl(editor, shapeIds);
+    if (!image) throw new Error("Could not export the selected shapes");
+
+    const res = await fetch("/api/daydream/oneshot", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ prompt, image, model_id: modelId, params }),
+    });
+    if (!res.ok) throw await readApiError(res);
+    // The schema guarantees at least one output with a url
+    const result = parseResponse(oneshotResponse, await res.json());
+    return result.outputs[0].url;
+}
+
+// Scale the image to `height`, keeping its aspect ratio
+async function createImageAsset(url: string, height: number, prompt: string) {
+    const natural = await loadImageSize(url).catch(() => ({ w: height, h: height }));
+    const h = height || natural.h;
+    const w = natural.h ? (natural.w / natural.h) * h : h;
+    const asset = AssetRecordType.create({
+        id: AssetRecordType.createId(),
+        type: "image",
+        props: {
+            name: prompt,
+            src: url,
+            w,
+            h,
+            mimeType: "image/png",
+            isAnimated: false,
+        },
+    });
+    return { asset, w, h };
+}
+
+export interface RenderOptions {
+    // Existing result shape to update in place (a re-run)
+    target?: TLShapeId;
+    // Oneshot model; the server default when omitted
+    modelId?: string;
+    params?: GenerationParams;
+}
+
+const INSERTED_IMAGE_HEIGHT = 240;
+
+// Place an image from a URL in the middle of the viewport, e.g. an earlier render
+export async function insertImage(editor: Editor, url: string, name: string): Promise<TLShapeId> {
+    const { asset, w, h } = await createImageAsset(url, INSERTED_IMAGE_HEIGHT, name);
+    const center = editor.getViewportPageBounds().center;
+    const id = createShapeId();
+    editor.run(() => {
+        editor.createAssets([asset]);
+        editor.createShape<TLImageShape>({
+            id,
+            type: "image",
+            x: center.x - w / 2,
+            y: center.y - h / 2,
+            props: { assetId: asset.id, w, h },
+            meta: { name, hidden: false },
+        });
+        editor.select(id);
+    });
+    return id;
+}
+
+/**
+ * Render `shapeIds` through the oneshot image-to-image pipeline. Without a
+ * `target` a new image is placed to the right of the sources.
+ */
+export async function renderShapes(
+    editor: Editor,
+    shapeIds: TLShapeId[],
+    prompt: string,
+    { target, modelId, params }: RenderOptions = {}
+): Promise<{ shapeId: TLShapeId; url: string }> {
+    const sourceBounds = shapeIds
+        .map((id) => editor.getShapePageBounds(id))
+        .filter((b): b is Box => Boolean(b));
+    if (sourceBounds.length === 0) throw new Error("Nothing to render");
+    const bounds = Box.Common(sourceBounds);
+    const url = await requestRender(editor, shapeIds, prompt, { modelId, params });
+    // Same height as what it was rendered from
+    const { asset, w, h } = await createImageAsset(url, bounds.h, prompt);
+    const aiRender: AiRenderMeta = { sourceShapeIds: shapeIds, prompt };
+
+    const existing = target ? editor.getShape<TLImageShape>(target) : undefined;
+    if (existing) {
+        editor.run(() => {
+            editor.createAssets([asset]);
+            editor.updateShape<TLImageShape>({
+                id: existing.id,
+                type: "image",
+                props: { assetId: asset.id, w, h },
+                meta: { ...existing.meta, aiRender },
+            });
+        });
+        return { shapeId: existing.id, url };
+    }
+
+    const id = createShapeId();
+    editor.run(() => {
+        editor.createAssets([asset]);
+        editor.createShape<TLImageShape>({
+            id,
+            type: "image",
+            x: bounds.maxX + RESULT_GAP,
+            y: bounds.y,
+            props: { assetId: asset.id, w, h },
+            meta: {
+                name: `Render: ${prompt}`,
+                hidden: false,
+                aiRender,
+            },
+        });
+        editor.select(id);
+    });
+    return { shapeId: id, url };
+}
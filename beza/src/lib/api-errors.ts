@@ -0,0 +1,91 @@
+// One error envelope for every API route:
+//   { error: { code, message, upstreamStatus, retryable } }
+// Shared by the routes and the client, so keep this free of Node imports.
+
+export type ApiErrorCode =
+    | "bad_request"
+    | "bad_prompt"
+    | "forbidden"
+    | "not_found"
+    | "quota_exceeded"
+    | "rate_limited"
+    | "upstream_auth"
+    | "upstream_down"
+    | "upstream_error"
+    | "timeout"
+    | "internal";
+
+export interface ApiErrorInfo {
+    code: ApiErrorCode;
+    message: string;
+    // Status Daydream answered with, when the error came from upstream
+    upstreamStatus: number | null;
+    retryable: boolean;
+}
+
+export interface ApiErrorBody {
+    error: ApiErrorInfo;
+}
+
+export const API_ERROR_STATUS: Record<ApiErrorCode, number> = {
+    bad_request: 400,
+    bad_prompt: 422,
+    forbidden: 403,
+    not_found: 404,
+    quota_exceeded: 402,
+    rate_limited: 429,
+    upstream_auth: 502,
+    upstream_down: 503,
+    upstream_error: 502,
+    timeout: 504,
+    internal: 500,
+};
+
+export const API_ERROR_CODES = Object.keys(API_ERROR_STATUS) as ApiErrorCode[];
+
+const RETRYABLE: ApiErrorCode[] = ["rate_limited", "upstream_down", "timeout"];
+
+export class ApiError extends Error {
+    readonly code: ApiErrorCode;
+    readonly upstreamStatus: number | null;
+    readonly retryable: boolean;
+
+    constructor(code: ApiErrorCode, message: string, upstreamStatus: number | null = null) {
+        super(message);
+        this.name = "ApiError";
+        this.code = code;
+        this.upstreamStatus = upstreamStatus;
+        this.retryable = RETRYABLE.includes(code);
+    }
+
+    get status(): number {
+        return API_ERROR_STATUS[this.code];
+    }
+
+    toJSON(): ApiErrorInfo {
+        return {
+            code: this.code,
+            message: this.message,
+            upstreamStatus: this.upstreamStatus,
+            retryable: this.retryable,
+        };
+    }
+
+    static fromInfo(info: ApiErrorInfo): ApiError {
+        return new ApiError(info.code, info.message, info.upstreamStatus);
+    }
+}
+
+const isApiErrorBody = (value: unknown): value is ApiErrorBody =>
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as ApiErrorBody).error === "object" &&
+    (value as ApiErrorBody).error !== null &&
+    typeof (value as ApiErrorBody).error.code === "string";
+
+// Turn a failed response from one of our routes into an ApiError
+export async function readApiError(res: Response): Promise<ApiError> {
+    const body = (await res.json().catch(() => null)) as unknown;
+    if (isApiErrorBody(body)) return ApiError.fromInfo(body.error);
+    return new ApiError(res.status >= 500 ? "upstream_down" : "bad_request", `Request failed: ${res.status}`);
+}
@@ -0,0 +1,64 @@
+import { NextResponse } from "next/server";
+import { ApiError, type ApiErrorBody, type ApiErrorCode } from "@/lib/api-errors";
+import { ValidationError, type Schema } from "@/lib/schema";
+
+// Server half of the error envelope: every route turns whatever went wrong
+// into an ApiError and answers with apiErrorResponse.
+
+export function toApiError(error: unknown): ApiError {
+    if (error instanceof ApiError) return error;
+    if (error instanceof ValidationError) return new ApiError("bad_request", error.message);
+    if (error instanceof SyntaxError) return new ApiError("bad_request", "Body must be valid JSON");
+    if (error instanceof DOMException && (error.name === "TimeoutError" || error.name === "AbortError")) {
+        return new ApiError("timeout", "Daydream took too long to answer");
+    }
+    // fetch rejects with a TypeError when the host cannot be reached
+    if (error instanceof TypeError && error.message === "fetch failed") {
+        return new ApiError("upstream_down", "Could not reach Daydream");
+    }
+    console.error("Unhandled API error:", error);
+    return new ApiError("internal", error instanceof Error ? error.message : "Unknown server error");
+}
+
+export function apiErrorResponse(error: unknown): NextResponse<ApiErrorBody> {
+    const apiError = toApiError(error);
+    return NextResponse.json({ error: apiError.toJSON() }, { status: apiError.status });
+}
+
+export async function readRequest<T>(req: Request, schema: Schema<T>): Promise<T> {
+    return schema(await req.json());
+}
+
+// Daydream answers errors as plain text or as JSON with an error/message field
+function upstreamMessage(text: string, status: number): string {
+    try {
+        const body = JSON.parse(text) as { error?: unknown; message?: unknown; detail?: unknown };
+        const message = body.message ?? body.error ?? body.detail;
+        if (typeof message === "string" && message) return message;
+    } catch {
+        // not JSON
+    }
+    return text.trim().slice(0, 500) || `Daydream returned ${status}`;
+}
+
+interface UpstreamErrorOptions {
+    // Code for 400/422 answers, e.g. bad_prompt where the input is a prompt
+    badInputCode?: ApiErrorCode;
+}
+
+export async function upstreamError(
+    response: Response,
+    { badInputCode = "bad_request" }: UpstreamErrorOptions = {}
+): Promise<ApiError> {
+    const { status } = response;
+    const message = upstreamMessage(await response.text().catch(() => ""), status);
+    let code: ApiErrorCode = "upstream_error";
+    if (status === 400 || status === 422) code = badInputCode;
+    else if (status === 401 || status === 403) code = "upstream_auth";
+    else if (status === 402) code = "quota_exceeded";
+    else if (status === 404) code = "not_found";
+    else if (status === 429) code = /quota|credit/i.test(message) ? "quota_exceeded" : "rate_limited";
+    else if (status === 408 || status === 504) code = "timeout";
+    else if (status >= 500) code = "upstream_down";
+    return new ApiError(code, message, status);
+}
@@ -0,0 +1,108 @@
+import { API_ERROR_CODES, ApiError } from "@/lib/api-errors";
+import { generationParamsSchema, generationParamsShape } from "@/lib/generation-params";
+import {
+    array,
+    boolean,
+    looseObject,
+    nullable,
+    number,
+    object,
+    oneOf,
+    optional,
+    string,
+    tuple,
+    union,
+    ValidationError,
+    type Infer,
+    type Schema,
+} from "@/lib/schema";
+
+// Request and response shapes of the /api/daydream routes. The routes validate
+// requests with these; the client validates what the routes send back.
+
+const MAX_PROMPT_LENGTH = 2_000;
+// Data URL of an exported selection
+const MAX_IMAGE_LENGTH = 10_000_000;
+
+const prompt = string({ min: 1, max: MAX_PROMPT_LENGTH });
+const id = string({ min: 1, max: 200 });
+
+export const createStreamRequest = object({
+    pipeline_id: optional(id),
+    params: generationParamsSchema,
+});
+export type CreateStreamRequest = Infer<typeof createStreamRequest>;
+
+// [prompt, weight] pairs blend prompts, which is how live prompt changes crossfade
+const weightedPrompts = array(tuple(prompt, number({ min: 0, max: 1 })), { min: 1 });
+export type WeightedPrompts = Infer<typeof weightedPrompts>;
+
+// A running stream can change its prompt along with the generation params
+export const updateStreamRequest = object({
+    params: object({
+        ...generationParamsShape,
+        prompt: optional(union<string | WeightedPrompts>(prompt, weightedPrompts)),
+    }),
+});
+export type UpdateStreamRequest = Infer<typeof updateStreamRequest>;
+
+export const promptRequest = object({
+    stream_id: id,
+    prompt,
+    params: generationParamsSchema,
+});
+export type PromptRequest = Infer<typeof promptRequest>;
+
+export const oneshotRequest = object({
+    prompt,
+    image: optional(string({ min: 1, max: MAX_IMAGE_LENGTH })),
+    model_id: optional(id),
+    params: generationParamsSchema,
+});
+export type OneshotRequest = Infer<typeof oneshotRequest>;
+
+export const streamResponse = looseObject({
+    id,
+    pipeline_id: optional(string()),
+    status: optional(string()),
+    whip_url: optional(string()),
+    output_playback_id: optional(string()),
+});
+export type StreamResponse = Infer<typeof streamResponse>;
+
+export const oneshotResponse = looseObject({
+    id: optional(string()),
+    status: optional(string()),
+    outputs: array(looseObject({ url: string({ min: 1 }), mime_type: optional(string()) }), { min: 1 }),
+});
+
+const errorInfo = object({
+    code: oneOf(API_ERROR_CODES),
+    message: string(),
+    upstreamStatus: nullable(number()),
+    retryable: boolean(),
+});
+
+export const promptJobResponse = object({
+    id,
+    stream_id: id,
+    prompt_id: nullable(string()),
+    status: oneOf(["pending", "processing", "succeeded", "failed", "cancelled"] as const),
+    upstream_status: nullable(string()),
+    result: nullable(looseObject({})),
+    error: nullable(errorInfo),
+    created_at: string(),
+    updated_at: string(),
+});
+
+// Validate a response body on the client; a malformed one is reported like any upstream error
+export function parseResponse<T>(schema: Schema<T>, value: unknown): T {
+    try {
+        return schema(value);
+    } catch (err) {
+        if (err instanceof ValidationError) {
+            throw new ApiError("upstream_error", `Unexpected response from server (${err.message})`);
+        }
+        throw err;
+    }
+}
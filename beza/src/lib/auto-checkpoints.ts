@@ -0,0 +1,49 @@
+import type { Editor } from "@tldraw/tldraw";
+
+// Decides when to take an automatic checkpoint of the page being edited: after
+// enough edits, or once some time has passed since the last one with edits in
+// between. Only local edits count, so collaborators do not all checkpoint the
+// same change.
+
+export const AUTO_CHECKPOINT_INTERVAL_MS = 5 * 60_000;
+export const AUTO_CHECKPOINT_EDITS = 200;
+const CHECK_EVERY_MS = 30_000;
+
+export class AutoCheckpoints {
+    private edits = 0;
+    private lastCheckpointAt = Date.now();
+    private readonly unlisten: () => void;
+    private readonly timer: ReturnType<typeof setInterval>;
+
+    constructor(
+        editor: Editor,
+        private readonly onCheckpoint: () => void
+    ) {
+        this.unlisten = editor.store.listen(
+            () => {
+                this.edits++;
+                if (this.edits >= AUTO_CHECKPOINT_EDITS) this.fire();
+            },
+            { source: "user", scope: "document" }
+        );
+        this.timer = setInterval(() => {
+            if (this.edits > 0 && Date.now() - this.lastCheckpointAt >= AUTO_CHECKPOINT_INTERVAL_MS) this.fire();
+        }, CHECK_EVERY_MS);
+    }
+
+    // A checkpoint was taken some other way, e.g. by hand, or another page was opened
+    reset(): void {
+        this.edits = 0;
+        this.lastCheckpointAt = Date.now();
+    }
+
+    stop(): void {
+        this.unlisten();
+        clearInterval(this.timer);
+    }
+
+    private fire(): void {
+        this.reset();
+        this.onCheckpoint();
+    }
+}
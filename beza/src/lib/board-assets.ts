@@ -0,0 +1,83 @@
+import { createReadStream, createWriteStream } from "fs";
+import { mkdir, rename, rm, stat } from "fs/promises";
+import path from "path";
+import { Readable, Transform } from "stream";
+import { pipeline } from "stream/promises";
+import type { ReadableStream as WebReadableStream } from "stream/web";
+import { randomUUID } from "crypto";
+import { ApiError } from "@/lib/api-errors";
+
+// Files attached to a board, such as recordings, stored next to the board JSON.
+// The board document only holds their URL.
+
+const ASSET_DATA_DIR = process.env.ASSET_DATA_DIR ?? path.join(process.cwd(), ".data", "assets");
+
+export const MAX_ASSET_BYTES = Number(process.env.MAX_ASSET_BYTES ?? 200 * 1024 * 1024);
+
+// Content type -> file extension of what may be uploaded
+const ASSET_TYPES: Record<string, string> = {
+    "video/webm": "webm",
+    "video/mp4": "mp4",
+};
+
+const ASSET_ID_PATTERN = /^[0-9a-f-]{36}\.(webm|mp4)$/;
+
+export const isAllowedAssetType = (mimeType: string): boolean => mimeType in ASSET_TYPES;
+
+export const isValidAssetId = (assetId: string): boolean => ASSET_ID_PATTERN.test(assetId);
+
+const assetPath = (roomId: string, assetId: string): string => path.join(ASSET_DATA_DIR, roomId, assetId);
+
+export const assetMimeType = (assetId: string): string =>
+    Object.keys(ASSET_TYPES).find((type) => assetId.endsWith(`.${ASSET_TYPES[type]}`)) ?? "application/octet-stream";
+
+// Fails the upload as soon as it passes MAX_ASSET_BYTES, however it was sent
+function limitSize(): Transform {
+    let bytes = 0;
+    return new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+            bytes += chunk.length;
+            if (bytes > MAX_ASSET_BYTES) return callback(new ApiError("bad_request", "File is too large"));
+            callback(null, chunk);
+        },
+        flush(callback) {
+            callback(bytes === 0 ? new ApiError("bad_request", "File is empty") : null);
+        },
+    });
+}
+
+/**
+ * Stream an upload to disk, so a recording is never held in memory whole.
+ * `mimeType` must be one of ASSET_TYPES; check with isAllowedAssetType first.
+ */
+export async function writeBoardAsset(
+    roomId: string,
+    body: ReadableStream<Uint8Array>,
+    mimeType: string
+): Promise<string> {
+    const assetId = `${randomUUID()}.${ASSET_TYPES[mimeType]}`;
+    const target = assetPath(roomId, assetId);
+    await mkdir(path.dirname(target), { recursive: true });
+    const temp = `${target}.${randomUUID()}.tmp`;
+    try {
+        await pipeline(Readable.fromWeb(body as WebReadableStream<Uint8Array>), limitSize(), createWriteStream(temp));
+        await rename(temp, target);
+    } catch (err) {
+        await rm(temp, { force: true });
+        throw err;
+    }
+    return assetId;
+}
+
+export async function getBoardAssetSize(roomId: string, assetId: string): Promise<number | null> {
+    try {
+        return (await stat(assetPath(roomId, assetId))).size;
+    } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw err;
+    }
+}
+
+// `start` and `end` are inclusive byte offsets, as in a Range header
+export const readBoardAsset = (roomId: string, assetId: string, start: number, end: number): ReadableStream<Uint8Array> =>
+    Readable.toWeb(createReadStream(assetPath(roomId, assetId), { start, end })) as ReadableStream<Uint8Array>;
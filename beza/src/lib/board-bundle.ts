@@ -0,0 +1,176 @@
+import type { Editor, JsonValue, TLEditorSnapshot, TLRecord } from "@tldraw/tldraw";
+import { blobToDataUrl } from "@/lib/ai-render";
+import { DAYDREAM_SETTINGS_KEY, getDaydreamSettings, type DaydreamBoardSettings } from "@/lib/board-settings";
+import { createBoard, saveBoard, uploadBoardAsset, type CreatedBoard } from "@/lib/boards";
+import { LIVE_VIDEO_TYPE, resolvePlayback } from "@/lib/live-video";
+import { BOARD_PRESETS_KEY, getBoardPresets, type PromptPreset } from "@/lib/prompt-presets";
+import { array, looseObject, nullable, number, oneOf, optional, safeParse, string } from "@/lib/schema";
+import type { PageData } from "@/lib/types";
+
+// A whole board in one .beza file: every page snapshot, the files they show
+// (images, recordings, generated videos) and the board settings. Importing one
+// creates a new board, so a bundle never overwrites anything.
+
+const BUNDLE_FORMAT = "beza";
+const BUNDLE_VERSION = 1;
+export const BUNDLE_EXTENSION = ".beza";
+
+export interface BoardBundle {
+    format: typeof BUNDLE_FORMAT;
+    version: number;
+    exportedAt: string;
+    pages: PageData[];
+    // Data URL of every file the pages point at, by the URL the snapshots use
+    assets: Record<string, string>;
+    settings: {
+        daydream: DaydreamBoardSettings;
+        promptPresets: PromptPreset[];
+    };
+}
+
+const bundleSchema = looseObject({
+    format: oneOf([BUNDLE_FORMAT] as const),
+    version: number({ min: 1, max: BUNDLE_VERSION, integer: true }),
+    pages: array(
+        looseObject({
+            id: string({ min: 1, max: 100 }),
+            name: string({ max: 200 }),
+            canvasData: nullable(looseObject({ document: looseObject({ store: looseObject({}) }) })),
+        }),
+        { min: 1 }
+    ),
+    assets: looseObject({}),
+    settings: optional(looseObject({})),
+});
+
+// Recordings can be uploaded to the new board; anything else stays a data URL
+const UPLOADABLE_TYPES = new Set(["video/webm", "video/mp4"]);
+
+type RecordWithSrc = TLRecord & { props: { src: string } };
+
+const snapshotRecords = (snapshot: TLEditorSnapshot | null): TLRecord[] =>
+    snapshot ? Object.values(snapshot.document.store) : [];
+
+// Asset records and file-backed video shapes; streams cannot be put in a file
+function fileRecords(snapshot: TLEditorSnapshot | null): RecordWithSrc[] {
+    return snapshotRecords(snapshot).filter((record): record is RecordWithSrc => {
+        const src = (record as { props?: { src?: unknown } }).props?.src;
+        if (typeof src !== "string" || !src || src.startsWith("data:")) return false;
+        if (record.typeName === "asset") return true;
+        if (record.typeName !== "shape" || record.type !== LIVE_VIDEO_TYPE) return false;
+        const playback = resolvePlayback(src, (record.props as { playbackId?: string }).playbackId ?? "");
+        return playback !== null && playback.src === src && !src.endsWith(".m3u8");
+    });
+}
+
+/**
+ * Bundle the given pages with the board's settings. Files that cannot be
+ * fetched (e.g. another site without CORS) keep their URL and are counted
+ * in `missingAssets`.
+ */
+export async function createBundle(
+    editor: Editor,
+    pages: PageData[]
+): Promise<{ bundle: BoardBundle; missingAssets: number }> {
+    const urls = new Set(pages.flatMap((page) => fileRecords(page.canvasData).map((r) => r.props.src)));
+    const assets: Record<string, string> = {};
+    let missingAssets = 0;
+    for (const url of urls) {
+        try {
+            const res = await fetch(url);
+            if (!res.ok) throw new Error(`HTTP ${res.status}`);
+            assets[url] = await blobToDataUrl(await res.blob());
+        } catch (err) {
+            console.warn(`Could not embed ${url}:`, err);
+            missingAssets++;
+        }
+    }
+    const bundle: BoardBundle = {
+        format: BUNDLE_FORMAT,
+        version: BUNDLE_VERSION,
+        exportedAt: new Date().toISOString(),
+        // Thumbnails are rebuilt on the first save
+        pages: pages.map(({ id, name, canvasData }) => ({ id, name, canvasData })),
+        assets,
+        settings: { daydream: getDaydreamSettings(editor), promptPresets: getBoardPresets(editor) },
+    };
+    return { bundle, missingAssets };
+}
+
+export const bundleToBlob = (bundle: BoardBundle): Blob =>
+    new Blob([JSON.stringify(bundle)], { type: "application/json" });
+
+export type ParsedBundle = { ok: true; bundle: BoardBundle } | { ok: false; error: string };
+
+export function parseBundle(text: string): ParsedBundle {
+    let json: unknown;
+    try {
+        json = JSON.parse(text);
+    } catch {
+        return { ok: false, error: "Not a .beza file" };
+    }
+    const parsed = safeParse(bundleSchema, json);
+    if (!parsed.ok) return parsed;
+    if (!Object.values(parsed.value.assets).every((value) => typeof value === "string" && value.startsWith("data:"))) {
+        return { ok: false, error: "assets: must be data URLs" };
+    }
+    return { ok: true, bundle: parsed.value as unknown as BoardBundle };
+}
+
+// Board settings go into pages that do not carry their own
+function withSettings(snapshot: TLEditorSnapshot, settings: BoardBundle["settings"] | undefined): TLEditorSnapshot {
+    const document = snapshotRecords(snapshot).find((record) => record.typeName === "document");
+    if (!settings || !document) return snapshot;
+    const meta = {
+        [DAYDREAM_SETTINGS_KEY]: settings.daydream as JsonValue,
+        [BOARD_PRESETS_KEY]: settings.promptPresets as unknown as JsonValue,
+        ...document.meta,
+    };
+    return {
+        ...snapshot,
+        document: {
+            ...snapshot.document,
+            store: { ...snapshot.document.store, [document.id]: { ...document, meta } },
+        },
+    };
+}
+
+/** Create a new board from a bundle, uploading its recordings to the new board. */
+export async function importBundle(bundle: BoardBundle): Promise<CreatedBoard> {
+    const board = await createBoard();
+    const urls = new Map<string, string>();
+    for (const [url, dataUrl] of Object.entries(bundle.assets)) {
+        const blob = await (await fetch(dataUrl)).blob();
+        if (!UPLOADABLE_TYPES.has(blob.type.split(";")[0])) {
+            urls.set(url, dataUrl);
+            continue;
+        }
+        try {
+            urls.set(url, (await uploadBoardAsset(board.roomId, blob, board.editToken)).url);
+        } catch (err) {
+            console.warn("Could not upload bundled file, keeping it inline:", err);
+            urls.set(url, dataUrl);
+        }
+    }
+    const pages = bundle.pages.map((page): PageData => {
+        if (!page.canvasData) return { id: page.id, name: page.name, canvasData: null };
+        const store = Object.fromEntries(
+            Object.entries(page.canvasData.document.store).map(([id, record]) => {
+                const src = (record as { props?: { src?: unknown } }).props?.src;
+                const next = typeof src === "string" ? urls.get(src) : undefined;
+                return [id, next ? { ...record, props: { ...(record as RecordWithSrc).props, src: next } } : record];
+            })
+        ) as TLEditorSnapshot["document"]["store"];
+        const canvasData = { ...page.canvasData, document: { ...page.canvasData.document, store } };
+        return { id: page.id, name: page.name, canvasData: withSettings(canvasData, bundle.settings) };
+    });
+    await saveBoard(board.roomId, pages, board.editToken);
+    return board;
+}
+
+/** Read a .beza file picked by the user and create a board from it. */
+export async function importBundleFile(file: File): Promise<CreatedBoard> {
+    const parsed = parseBundle(await file.text());
+    if (!parsed.ok) throw new Error(`Could not import ${file.name}: ${parsed.error}`);
+    return importBundle(parsed.bundle);
+}
@@ -0,0 +1,182 @@
+import type { PageData } from "@/lib/types";
+
+// Offline copy of each board in IndexedDB, used when the server cannot be
+// reached. Pages are stored one record each so a save only writes the pages
+// that changed, and boards are kept apart by room id.
+
+const DB_NAME = "beza-board-cache";
+const DB_VERSION = 1;
+const BOARDS = "boards";
+const PAGES = "pages";
+
+// Where boards were cached before IndexedDB, and tldraw's own store from when
+// every room shared persistenceKey="bezalel-board"
+const LEGACY_KEY_PREFIX = "canvas-state-";
+const LEGACY_TLDRAW_DB = "TLDRAW_DOCUMENT_v2bezalel-board";
+
+interface BoardRecord {
+    roomId: string;
+    pageIds: string[];
+    // Least recently saved boards are dropped first when storage runs out
+    updatedAt: number;
+}
+
+interface PageRecord {
+    roomId: string;
+    page: PageData;
+}
+
+export class BoardCacheQuotaError extends Error {
+    constructor() {
+        super("Browser storage is full");
+        this.name = "BoardCacheQuotaError";
+    }
+}
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+    new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error ?? new DOMException("Transaction aborted", "AbortError"));
+    });
+
+const isQuotaError = (err: unknown): boolean => err instanceof DOMException && err.name === "QuotaExceededError";
+
+function readLegacyBoards(): { roomId: string; pages: PageData[] }[] {
+    const boards: { roomId: string; pages: PageData[] }[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i);
+        if (!key?.startsWith(LEGACY_KEY_PREFIX)) continue;
+        try {
+            const pages = JSON.parse(localStorage.getItem(key) ?? "null") as PageData[] | null;
+            if (Array.isArray(pages)) boards.push({ roomId: key.slice(LEGACY_KEY_PREFIX.length), pages });
+        } catch {
+            // Unreadable leftovers are dropped with the rest
+        }
+    }
+    return boards;
+}
+
+function putBoard(tx: IDBTransaction, roomId: string, pages: PageData[], changed: PageData[] = pages): void {
+    for (const page of changed) tx.objectStore(PAGES).put({ roomId, page } satisfies PageRecord);
+    tx.objectStore(BOARDS).put({ roomId, pageIds: pages.map((p) => p.id), updatedAt: Date.now() } satisfies BoardRecord);
+}
+
+// Runs once, when the database is created: carry over the localStorage cache
+function migrateLegacyCache(tx: IDBTransaction): string[] {
+    const legacy = readLegacyBoards();
+    for (const { roomId, pages } of legacy) putBoard(tx, roomId, pages);
+    return legacy.map(({ roomId }) => `${LEGACY_KEY_PREFIX}${roomId}`);
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+    dbPromise ??= new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        let migratedKeys: string[] = [];
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            db.createObjectStore(BOARDS, { keyPath: "roomId" });
+            db.createObjectStore(PAGES, { keyPath: ["roomId", "page.id"] }).createIndex("roomId", "roomId");
+            if (request.transaction) migratedKeys = migrateLegacyCache(request.transaction);
+        };
+        request.onsuccess = () => {
+            // Only forget the old copies once they are safely in IndexedDB
+            for (const key of migratedKeys) localStorage.removeItem(key);
+            if (migratedKeys.length > 0) indexedDB.deleteDatabase(LEGACY_TLDRAW_DB);
+            resolve(request.result);
+        };
+        request.onerror = () => {
+            dbPromise = null;
+            reject(request.error);
+        };
+    });
+    return dbPromise;
+}
+
+// What was last written per room and page, so unchanged pages are skipped;
+// null for a page that is stored but was not read in this session
+const written = new Map<string, Map<string, PageData | null>>();
+// Writes for one room run in order, so an older save never lands after a newer one
+const writeQueues = new Map<string, Promise<void>>();
+
+export async function readCachedBoard(roomId: string): Promise<PageData[] | null> {
+    if (typeof indexedDB === "undefined") return null;
+    try {
+        const db = await openDb();
+        const tx = db.transaction([BOARDS, PAGES], "readonly");
+        const board = (await requestResult(tx.objectStore(BOARDS).get(roomId))) as BoardRecord | undefined;
+        if (!board) return null;
+        const records = (await requestResult(tx.objectStore(PAGES).index("roomId").getAll(roomId))) as PageRecord[];
+        const byId = new Map(records.map(({ page }) => [page.id, page]));
+        const pages = board.pageIds.flatMap((id) => byId.get(id) ?? []);
+        written.set(roomId, new Map(pages.map((p) => [p.id, p])));
+        return pages.length > 0 ? pages : null;
+    } catch (err) {
+        console.error("Failed to read cached board:", err);
+        return null;
+    }
+}
+
+// Pages stored for a room by an earlier session, so deleted ones can be removed
+async function storedPages(db: IDBDatabase, roomId: string): Promise<Map<string, PageData | null>> {
+    const index = db.transaction(PAGES, "readonly").objectStore(PAGES).index("roomId");
+    const keys = (await requestResult(index.getAllKeys(roomId))) as [string, string][];
+    return new Map(keys.map(([, pageId]) => [pageId, null]));
+}
+
+async function writePages(db: IDBDatabase, roomId: string, pages: PageData[]): Promise<void> {
+    const previous = written.get(roomId) ?? (await storedPages(db, roomId));
+    const tx = db.transaction([BOARDS, PAGES], "readwrite");
+    putBoard(tx, roomId, pages, pages.filter((page) => previous.get(page.id) !== page));
+    const kept = new Set(pages.map((p) => p.id));
+    for (const id of previous.keys()) {
+        if (!kept.has(id)) tx.objectStore(PAGES).delete([roomId, id]);
+    }
+    await transactionDone(tx);
+    written.set(roomId, new Map(pages.map((p) => [p.id, p])));
+}
+
+// Drop the least recently saved other board; false when there is none left
+async function evictOldestBoard(db: IDBDatabase, keepRoomId: string): Promise<boolean> {
+    const boards = (await requestResult(db.transaction(BOARDS, "readonly").objectStore(BOARDS).getAll())) as BoardRecord[];
+    const oldest = boards.filter((b) => b.roomId !== keepRoomId).sort((a, b) => a.updatedAt - b.updatedAt)[0];
+    if (!oldest) return false;
+    const tx = db.transaction([BOARDS, PAGES], "readwrite");
+    tx.objectStore(BOARDS).delete(oldest.roomId);
+    for (const id of oldest.pageIds) tx.objectStore(PAGES).delete([oldest.roomId, id]);
+    await transactionDone(tx);
+    written.delete(oldest.roomId);
+    console.warn(`Browser storage full, dropped the offline copy of board ${oldest.roomId}`);
+    return true;
+}
+
+/**
+ * Save a board's pages, writing only pages that changed since the last call.
+ * When storage runs out, offline copies of other boards are dropped to make
+ * room; rejects with BoardCacheQuotaError when that is not enough.
+ */
+export function writeCachedBoard(roomId: string, pages: PageData[]): Promise<void> {
+    if (typeof indexedDB === "undefined") return Promise.resolve();
+    const write = async () => {
+        const db = await openDb();
+        for (;;) {
+            try {
+                return await writePages(db, roomId, pages);
+            } catch (err) {
+                if (!isQuotaError(err)) throw err;
+                if (!(await evictOldestBoard(db, roomId))) throw new BoardCacheQuotaError();
+            }
+        }
+    };
+    const queued = (writeQueues.get(roomId) ?? Promise.resolve()).catch(() => {}).then(write);
+    writeQueues.set(roomId, queued);
+    return queued;
+}
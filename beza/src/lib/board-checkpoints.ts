@@ -0,0 +1,134 @@
+import { readFile, rm } from "fs/promises";
+import path from "path";
+import { randomUUID } from "crypto";
+import type { TLEditorSnapshot } from "@tldraw/tldraw";
+import { writeJson } from "@/lib/board-storage";
+import { boolean, looseObject, nullable, object, optional, string, type Infer } from "@/lib/schema";
+
+// Saved versions of a board's pages. Each room has an index of checkpoints and
+// one file per checkpoint snapshot, so listing them never reads the snapshots.
+
+const CHECKPOINT_DATA_DIR = process.env.CHECKPOINT_DATA_DIR ?? path.join(process.cwd(), ".data", "checkpoints");
+
+// Automatic checkpoints per page; named ones are kept until deleted with the board
+export const MAX_AUTO_CHECKPOINTS = Number(process.env.MAX_AUTO_CHECKPOINTS ?? 30);
+
+export interface CheckpointInfo {
+    id: string;
+    pageId: string;
+    // null for automatic checkpoints
+    name: string | null;
+    auto: boolean;
+    createdAt: string;
+    thumbnail: string | null;
+}
+
+export interface Checkpoint extends CheckpointInfo {
+    canvasData: TLEditorSnapshot;
+}
+
+export const createCheckpointRequest = object({
+    pageId: string({ min: 1, max: 100 }),
+    name: nullable(string({ min: 1, max: 100 })),
+    auto: boolean(),
+    canvasData: looseObject({ document: looseObject({}) }),
+    thumbnail: nullable(string({ max: 500_000 })),
+    // Give back the page's last checkpoint of this name if it holds the same snapshot
+    dedupe: optional(boolean()),
+});
+export type CreateCheckpointRequest = Infer<typeof createCheckpointRequest>;
+
+// What the client sends; the route only checks the snapshot's outline
+export type NewCheckpoint = Omit<CheckpointInfo, "id" | "createdAt"> & { canvasData: TLEditorSnapshot; dedupe?: boolean };
+
+const CHECKPOINT_ID_PATTERN = /^[0-9a-f-]{36}$/;
+
+export const isValidCheckpointId = (checkpointId: string): boolean => CHECKPOINT_ID_PATTERN.test(checkpointId);
+
+const roomDir = (roomId: string): string => path.join(CHECKPOINT_DATA_DIR, roomId);
+const indexPath = (roomId: string): string => path.join(roomDir(roomId), "index.json");
+const checkpointPath = (roomId: string, checkpointId: string): string =>
+    path.join(roomDir(roomId), `${checkpointId}.json`);
+
+async function readIndex(roomId: string): Promise<CheckpointInfo[]> {
+    try {
+        return JSON.parse(await readFile(indexPath(roomId), "utf8")) as CheckpointInfo[];
+    } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+        throw err;
+    }
+}
+
+// Index updates for a room run one at a time so concurrent saves do not drop each other
+const indexLocks = new Map<string, Promise<unknown>>();
+
+function withIndexLock<T>(roomId: string, run: () => Promise<T>): Promise<T> {
+    const result = (indexLocks.get(roomId) ?? Promise.resolve()).catch(() => {}).then(run);
+    indexLocks.set(roomId, result);
+    // Forget the room once nothing is queued behind this write
+    const release = () => {
+        if (indexLocks.get(roomId) === result) indexLocks.delete(roomId);
+    };
+    result.then(release, release);
+    return result;
+}
+
+// Newest first
+export async function listCheckpoints(roomId: string, pageId?: string): Promise<CheckpointInfo[]> {
+    const index = await readIndex(roomId);
+    return index.filter((c) => !pageId || c.pageId === pageId).reverse();
+}
+
+export async function readCheckpoint(roomId: string, checkpointId: string): Promise<Checkpoint | null> {
+    const info = (await readIndex(roomId)).find((c) => c.id === checkpointId);
+    if (!info) return null;
+    try {
+        const canvasData = JSON.parse(await readFile(checkpointPath(roomId, checkpointId), "utf8")) as TLEditorSnapshot;
+        return { ...info, canvasData };
+    } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw err;
+    }
+}
+
+async function readSnapshotText(roomId: string, checkpointId: string): Promise<string | null> {
+    try {
+        return await readFile(checkpointPath(roomId, checkpointId), "utf8");
+    } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw err;
+    }
+}
+
+/**
+ * Save a checkpoint. With `dedupe`, a page saved again under the same name with
+ * nothing changed gives back the checkpoint already saved instead of a copy:
+ * every editor that opens a page needing recovery keeps what was saved.
+ */
+export function createCheckpoint(roomId: string, request: CreateCheckpointRequest): Promise<CheckpointInfo> {
+    return withIndexLock(roomId, async () => {
+        const current = await readIndex(roomId);
+        const previous = request.dedupe
+            ? current.findLast((c) => c.pageId === request.pageId && c.name === request.name)
+            : undefined;
+        if (previous && (await readSnapshotText(roomId, previous.id)) === JSON.stringify(request.canvasData)) {
+            return previous;
+        }
+        const info: CheckpointInfo = {
+            id: randomUUID(),
+            pageId: request.pageId,
+            name: request.name,
+            auto: request.auto,
+            createdAt: new Date().toISOString(),
+            thumbnail: request.thumbnail,
+        };
+        // Snapshot first: an index entry must never point at a missing file
+        await writeJson(checkpointPath(roomId, info.id), request.canvasData);
+        const index = [...current, info];
+        const autos = index.filter((c) => c.auto && c.pageId === info.pageId);
+        const dropped = new Set(autos.slice(0, Math.max(0, autos.length - MAX_AUTO_CHECKPOINTS)).map((c) => c.id));
+        await writeJson(indexPath(roomId), index.filter((c) => !dropped.has(c.id)));
+        await Promise.all([...dropped].map((id) => rm(checkpointPath(roomId, id), { force: true })));
+        return info;
+    });
+}
@@ -0,0 +1,63 @@
+import type { Editor } from "@tldraw/tldraw";
+import { loadBoardSnapshot } from "@/lib/board-migrations";
+import { downloadBlob } from "@/lib/download";
+import { blankSnapshot } from "@/lib/pages";
+import { buildPdf, type PdfPage } from "@/lib/pdf";
+import type { PageData } from "@/lib/types";
+
+// Image and PDF export of board pages. Pages are drawn by a separate, hidden
+// editor so exporting never touches the board being edited.
+
+export type ImageExportFormat = "png" | "svg";
+
+// CSS pixels are 1/96 inch, PDF points 1/72
+const POINTS_PER_PIXEL = 72 / 96;
+
+const safeFilename = (name: string): string => name.replace(/[^\w\- ]+/g, "").trim() || "page";
+
+async function renderPage(
+    renderer: Editor,
+    page: PageData,
+    format: ImageExportFormat | "jpeg"
+): Promise<{ blob: Blob; width: number; height: number } | null> {
+    loadBoardSnapshot(renderer, page.canvasData ?? blankSnapshot(renderer));
+    const shapeIds = [...renderer.getCurrentPageShapeIds()];
+    if (shapeIds.length === 0) return null;
+    // Bitmaps are drawn at twice their size for sharpness; width and height stay in CSS pixels
+    return renderer.toImage(shapeIds, { format, background: true, quality: 0.92 });
+}
+
+/** One file per page that has something on it; returns how many were saved. */
+export async function exportPageImages(
+    renderer: Editor,
+    pages: PageData[],
+    format: ImageExportFormat,
+    baseName: string
+): Promise<number> {
+    let saved = 0;
+    for (const page of pages) {
+        const image = await renderPage(renderer, page, format);
+        if (!image) continue;
+        const name = pages.length === 1 ? baseName : `${baseName}-${page.name}`;
+        downloadBlob(`${safeFilename(name)}.${format}`, image.blob);
+        saved++;
+    }
+    return saved;
+}
+
+/** A PDF with a page per board page that has something on it; false when all are empty. */
+export async function exportPdf(renderer: Editor, pages: PageData[], baseName: string): Promise<boolean> {
+    const pdfPages: PdfPage[] = [];
+    for (const page of pages) {
+        const image = await renderPage(renderer, page, "jpeg");
+        if (!image) continue;
+        pdfPages.push({
+            jpeg: new Uint8Array(await image.blob.arrayBuffer()),
+            pointWidth: image.width * POINTS_PER_PIXEL,
+            pointHeight: image.height * POINTS_PER_PIXEL,
+        });
+    }
+    if (pdfPages.length === 0) return false;
+    downloadBlob(`${safeFilename(baseName)}.pdf`, buildPdf(pdfPages));
+    return true;
+}
@@ -0,0 +1,157 @@
+import {
+    createMigrationIds,
+    createMigrationSequence,
+    loadSnapshot,
+    type Editor,
+    type TLEditorSnapshot,
+    type TLRecord,
+    type UnknownRecord,
+} from "@tldraw/tldraw";
+import { LIVE_VIDEO_TYPE } from "@/lib/live-video";
+
+// Our own conventions in saved boards (layer meta, video shapes) change over
+// time. Each change gets a migration here. The sequence is registered with
+// every editor, so tldraw stores the board's version in each snapshot's schema
+// (saved pages, checkpoints and .beza files alike) and runs the migrations an
+// older snapshot has not seen when it is loaded. Never edit a shipped
+// migration; add a new version instead.
+
+const SEQUENCE_ID = "com.beza.board";
+
+const Versions = createMigrationIds(SEQUENCE_ID, {
+    LayerMeta: 1,
+    VideoShapes: 2,
+});
+
+// A shape record as saved, before tldraw has checked it
+interface SavedShape extends UnknownRecord {
+    type: string;
+    x: number;
+    y: number;
+    props: Record<string, unknown>;
+    meta?: Record<string, unknown>;
+}
+
+const isShape = (record: UnknownRecord): boolean => record.typeName === "shape";
+
+const finiteNumber = (value: unknown): number | null => {
+    const n = typeof value === "string" ? Number(value) : value;
+    return typeof n === "number" && Number.isFinite(n) ? n : null;
+};
+
+export const boardMigrations = createMigrationSequence({
+    sequenceId: SEQUENCE_ID,
+    // Boards saved before the sequence existed get every migration
+    retroactive: true,
+    sequence: [
+        {
+            // Layers read `name`, `hidden` and `originalX/Y` from meta; older boards
+            // could miss them, store numbers as strings or use `force_show`
+            id: Versions.LayerMeta,
+            scope: "record",
+            filter: isShape,
+            up: (record) => {
+                const shape = record as SavedShape;
+                const { force_show: forceShow, ...meta } = shape.meta ?? {};
+                return {
+                    ...shape,
+                    meta: {
+                        ...meta,
+                        name: typeof meta.name === "string" && meta.name ? meta.name : shape.type,
+                        hidden: forceShow === true ? false : meta.hidden === true,
+                        originalX: finiteNumber(meta.originalX) ?? shape.x,
+                        originalY: finiteNumber(meta.originalY) ?? shape.y,
+                    },
+                };
+            },
+        },
+        {
+            // Videos used to be geo rectangles with `meta.videoUrl`; they become video
+            // shapes with the same id, so arrows bound to them stay bound
+            id: Versions.VideoShapes,
+            scope: "record",
+            filter: (record) =>
+                isShape(record) &&
+                (record as SavedShape).type === "geo" &&
+                typeof (record as SavedShape).meta?.videoUrl === "string",
+            up: (record) => {
+                const shape = record as SavedShape;
+                const { videoUrl, ...meta } = shape.meta as { videoUrl: string };
+                return {
+                    ...shape,
+                    type: LIVE_VIDEO_TYPE,
+                    props: {
+                        w: finiteNumber(shape.props.w) ?? 320,
+                        h: finiteNumber(shape.props.h) ?? 180,
+                        src: videoUrl,
+                        playbackId: "",
+                        poster: "",
+                        playing: true,
+                        muted: true,
+                    },
+                    meta,
+                };
+            },
+        },
+    ],
+});
+
+// Shapes need their page or parent shape, and bindings both of their shapes
+function isAttached(record: TLRecord, ids: Set<string>): boolean {
+    if (record.typeName === "shape") return ids.has(record.parentId);
+    if (record.typeName === "binding") return ids.has(record.fromId) && ids.has(record.toId);
+    return true;
+}
+
+/**
+ * Load a saved page into an editor. When the snapshot cannot be loaded as a
+ * whole (a migration threw, tldraw rejects a record, or it was saved by a
+ * newer version), each record is migrated and checked on its own and the
+ * ones that fail are left out, along with what depended on them, so the rest
+ * of the page still shows. If even that cannot be loaded the page is left
+ * empty. Never throws; returns how many records were left out.
+ */
+export function loadBoardSnapshot(editor: Editor, snapshot: TLEditorSnapshot): number {
+    try {
+        loadSnapshot(editor.store, snapshot);
+        return 0;
+    } catch (err) {
+        console.error("Failed to load canvas snapshot, recovering what can be loaded:", err);
+    }
+    const { schema } = editor.store;
+    const records: TLRecord[] = [];
+    let dropped = 0;
+    for (const record of Object.values(snapshot.document?.store ?? {})) {
+        try {
+            const migrated = schema.migratePersistedRecord(record, snapshot.document.schema);
+            // Records from a newer version cannot be migrated; they may still be valid as they are
+            const candidate = migrated.type === "success" ? migrated.value : record;
+            records.push(schema.validateRecord(editor.store, candidate, "initialize", null));
+        } catch (err) {
+            console.warn(`Left out ${record.id} while recovering the page:`, err);
+            dropped++;
+        }
+    }
+    // Leaving out a shape strands its children, so repeat until nothing else goes
+    let kept = records;
+    for (;;) {
+        const ids = new Set<string>(kept.map((record) => record.id));
+        const attached = kept.filter((record) => isAttached(record, ids));
+        if (attached.length === kept.length) break;
+        dropped += kept.length - attached.length;
+        kept = attached;
+    }
+    // Already migrated, so it is loaded against the current schema
+    const load = (loaded: TLRecord[]) => {
+        const store = Object.fromEntries(loaded.map((record) => [record.id, record])) as TLEditorSnapshot["document"]["store"];
+        loadSnapshot(editor.store, { document: { schema: schema.serialize(), store } });
+    };
+    try {
+        load(kept);
+        return dropped;
+    } catch (err) {
+        console.error("Failed to load the recovered page, leaving it empty:", err);
+        load([]);
+        return dropped + kept.length;
+    }
+}
@@ -0,0 +1,43 @@
+import type { Editor, JsonValue } from "@tldraw/tldraw";
+import type { GenerationParams } from "@/lib/generation-params";
+
+// Board-wide settings live in the meta of tldraw's document record, so they are
+// saved with the board and reach collaborators through the normal store sync.
+
+export interface DaydreamBoardSettings {
+    pipelineId?: string;
+    modelId?: string;
+    // Last-used generation parameters
+    params?: GenerationParams;
+}
+
+export const DAYDREAM_SETTINGS_KEY = "daydream";
+
+export const readDocumentMeta = (editor: Editor, key: string): JsonValue | undefined =>
+    editor.getDocumentSettings().meta[key];
+
+// `trackHistory: false` keeps bookkeeping such as generation history out of undo/redo
+export function writeDocumentMeta(
+    editor: Editor,
+    key: string,
+    value: unknown,
+    { trackHistory = true }: { trackHistory?: boolean } = {}
+): void {
+    const write = () =>
+        editor.updateDocumentSettings({
+            meta: { ...editor.getDocumentSettings().meta, [key]: value as JsonValue },
+        });
+    if (trackHistory) write();
+    else editor.run(write, { history: "ignore" });
+}
+
+export function getDaydreamSettings(editor: Editor): DaydreamBoardSettings {
+    const settings = readDocumentMeta(editor, DAYDREAM_SETTINGS_KEY);
+    return typeof settings === "object" && settings !== null && !Array.isArray(settings)
+        ? (settings as DaydreamBoardSettings)
+        : {};
+}
+
+export function updateDaydreamSettings(editor: Editor, changes: Partial<DaydreamBoardSettings>): void {
+    writeDocumentMeta(editor, DAYDREAM_SETTINGS_KEY, { ...getDaydreamSettings(editor), ...changes });
+}
@@ -0,0 +1,122 @@
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import path from "path";
+import { randomUUID } from "crypto";
+import type { JsonObject, TLEditorSnapshot } from "@tldraw/tldraw";
+import { array, looseObject, nullable, number, object, optional, string, type Schema } from "@/lib/schema";
+import type { PageData } from "@/lib/types";
+
+export { isValidRoomId } from "@/lib/room-access";
+
+// Boards are stored as one JSON file per room so the app runs without a database
+const BOARD_DATA_DIR = process.env.BOARD_DATA_DIR ?? path.join(process.cwd(), ".data", "boards");
+
+const boardPath = (roomId: string): string => path.join(BOARD_DATA_DIR, `${roomId}.json`);
+const statePath = (roomId: string): string => path.join(BOARD_DATA_DIR, `${roomId}.state.json`);
+
+// What belongs to the board as a whole rather than to one page's snapshot
+export interface BoardState {
+    // Page the editors had open last
+    shownPageId: string | null;
+    // Document meta every page shares: Daydream settings, prompt presets and generation history
+    meta: JsonObject;
+}
+
+const pageId = string({ min: 1, max: 100 });
+const pageName = string({ min: 1, max: 200 });
+// Only the snapshot's outline is checked; tldraw validates the records when it loads them
+const canvasData = looseObject({ document: looseObject({}) });
+const thumbnail = string({ max: 500_000 });
+
+export const updateBoardStateRequest = object({
+    shownPageId: optional(pageId),
+    meta: optional(looseObject({})),
+});
+
+// A whole page, as saved with the board or added to it
+const pageShape = object({ id: pageId, name: pageName, canvasData: nullable(canvasData), thumbnail: optional(thumbnail) });
+const page: Schema<PageData> = (value, path) => {
+    const parsed = pageShape(value, path);
+    return { ...parsed, canvasData: parsed.canvasData as unknown as TLEditorSnapshot | null };
+};
+
+export const saveBoardRequest = array(page, { min: 1 });
+
+// Pages are changed one at a time, so an editor with an old copy of the board
+// cannot bring back a deleted page or undo a rename by saving the page it shows
+export const addPageRequest = object({
+    page,
+    index: number({ min: 0, integer: true }),
+});
+
+export const updatePageRequest = object({
+    name: optional(pageName),
+    content: optional(object({ canvasData, thumbnail: nullable(thumbnail) })),
+});
+
+export const reorderPagesRequest = object({
+    order: array(pageId, { min: 1 }),
+});
+
+async function readJson<T>(target: string): Promise<T | null> {
+    try {
+        return JSON.parse(await readFile(target, "utf8")) as T;
+    } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw err;
+    }
+}
+
+export async function writeJson(target: string, value: unknown): Promise<void> {
+    await mkdir(path.dirname(target), { recursive: true });
+    // Write to a temp file first so a crash never leaves half a board on disk;
+    // each write gets its own, so concurrent saves cannot rename one away
+    const temp = `${target}.${randomUUID()}.tmp`;
+    await writeFile(temp, JSON.stringify(value), "utf8");
+    await rename(temp, target);
+}
+
+// Read-modify-write updates of a room run one at a time so they do not drop each other
+const boardLocks = new Map<string, Promise<unknown>>();
+
+function withBoardLock<T>(roomId: string, run: () => Promise<T>): Promise<T> {
+    const result = (boardLocks.get(roomId) ?? Promise.resolve()).catch(() => {}).then(run);
+    boardLocks.set(roomId, result);
+    // Forget the room once nothing is queued behind this update
+    const release = () => {
+        if (boardLocks.get(roomId) === result) boardLocks.delete(roomId);
+    };
+    result.then(release, release);
+    return result;
+}
+
+export const readBoard = (roomId: string): Promise<PageData[] | null> => readJson<PageData[]>(boardPath(roomId));
+
+export function writeBoard(roomId: string, pages: PageData[]): Promise<void> {
+    return withBoardLock(roomId, () => writeJson(boardPath(roomId), pages));
+}
+
+/**
+ * Apply `change` to the saved pages and save the result. Returns null, without
+ * calling `change`, when the board has not been saved yet.
+ */
+export function updateBoard(roomId: string, change: (pages: PageData[]) => PageData[]): Promise<PageData[] | null> {
+    return withBoardLock(roomId, async () => {
+        const pages = await readBoard(roomId);
+        if (!pages) return null;
+        const next = change(pages);
+        await writeJson(boardPath(roomId), next);
+        return next;
+    });
+}
+
+export const readBoardState = (roomId: string): Promise<BoardState | null> =>
+    readJson<BoardState>(statePath(roomId));
+
+export function updateBoardState(roomId: string, changes: Partial<BoardState>): Promise<BoardState> {
+    return withBoardLock(roomId, async () => {
+        const current = (await readBoardState(roomId)) ?? { shownPageId: null, meta: {} };
+        const next = { ...current, ...changes };
+        await writeJson(statePath(roomId), next);
+        return next;
+    });
+}
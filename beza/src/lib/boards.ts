@@ -0,0 +1,213 @@
+import type { TLEditorSnapshot } from "@tldraw/tldraw";
+import { readApiError } from "@/lib/api-errors";
+import type { Checkpoint, CheckpointInfo, NewCheckpoint } from "@/lib/board-checkpoints";
+import type { BoardState } from "@/lib/board-storage";
+import type { PageData } from "@/lib/types";
+
+// Client side of /api/boards. The server owns the board; the IndexedDB copy in
+// board-cache.ts is only used when the server cannot be reached.
+
+// Edit or view token of the link the board was opened with
+export const BOARD_TOKEN_HEADER = "x-board-token";
+
+export interface CreatedBoard {
+    roomId: string;
+    editToken: string;
+    viewToken: string;
+}
+
+export const buildEditUrl = (origin: string, roomId: string, editToken: string): string =>
+    `${origin}/board/${roomId}?token=${encodeURIComponent(editToken)}`;
+
+export const buildViewUrl = (origin: string, roomId: string, viewToken: string): string =>
+    `${origin}/board/${roomId}/view?token=${encodeURIComponent(viewToken)}`;
+
+const tokenHeaders = (token: string | null): Record<string, string> =>
+    token ? { [BOARD_TOKEN_HEADER]: token } : {};
+
+// Which page this browser last had open, so a reload comes back to it
+const activePageKey = (roomId: string): string => `active-page-${roomId}`;
+
+export function readActivePageId(roomId: string): string | null {
+    if (typeof window === "undefined") return null;
+    try {
+        return localStorage.getItem(activePageKey(roomId));
+    } catch {
+        return null;
+    }
+}
+
+export function writeActivePageId(roomId: string, pageId: string): void {
+    try {
+        localStorage.setItem(activePageKey(roomId), pageId);
+    } catch (err) {
+        console.error("Failed to remember active page:", err);
+    }
+}
+
+export async function createBoard(): Promise<CreatedBoard> {
+    const res = await fetch("/api/boards", { method: "POST" });
+    if (!res.ok) throw await readApiError(res);
+    return (await res.json()) as CreatedBoard;
+}
+
+export class BoardAccessError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "BoardAccessError";
+    }
+}
+
+// Mint the links of a board saved before share links existed
+export async function claimBoard(roomId: string): Promise<CreatedBoard> {
+    const res = await fetch(`/api/boards/${encodeURIComponent(roomId)}/claim`, { method: "POST" });
+    if (res.status === 403) throw new BoardAccessError("This board has already been claimed; ask its owner for a link");
+    if (!res.ok) throw await readApiError(res);
+    return (await res.json()) as CreatedBoard;
+}
+
+// Returns null when the board does not exist on the server yet; throws when the server is unreachable
+export async function fetchBoard(roomId: string, token: string | null): Promise<PageData[] | null> {
+    const res = await fetch(`/api/boards/${encodeURIComponent(roomId)}`, {
+        cache: "no-store",
+        headers: tokenHeaders(token),
+    });
+    if (res.status === 404) return null;
+    if (res.status === 403) throw new BoardAccessError("Invalid or revoked link");
+    if (!res.ok) throw await readApiError(res);
+    return (await res.json()) as PageData[];
+}
+
+export async function saveBoard(
+    roomId: string,
+    pages: PageData[],
+    token: string | null
+): Promise<void> {
+    const res = await fetch(`/api/boards/${encodeURIComponent(roomId)}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json", ...tokenHeaders(token) },
+        body: JSON.stringify(pages),
+    });
+    if (!res.ok) throw await readApiError(res);
+}
+
+const pagesUrl = (roomId: string): string => `/api/boards/${encodeURIComponent(roomId)}/pages`;
+
+export async function addBoardPage(roomId: string, page: PageData, index: number, token: string | null): Promise<void> {
+    const res = await fetch(pagesUrl(roomId), {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...tokenHeaders(token) },
+        body: JSON.stringify({ page, index }),
+    });
+    if (!res.ok) throw await readApiError(res);
+}
+
+export interface PageChanges {
+    name?: string;
+    content?: { canvasData: TLEditorSnapshot; thumbnail: string | null };
+}
+
+// Rename a page or save its content; fails with not_found once the page is deleted
+export async function updateBoardPage(
+    roomId: string,
+    pageId: string,
+    changes: PageChanges,
+    token: string | null
+): Promise<void> {
+    const res = await fetch(`${pagesUrl(roomId)}/${encodeURIComponent(pageId)}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json", ...tokenHeaders(token) },
+        body: JSON.stringify(changes),
+    });
+    if (!res.ok) throw await readApiError(res);
+}
+
+export async function deleteBoardPage(roomId: string, pageId: string, token: string | null): Promise<void> {
+    const res = await fetch(`${pagesUrl(roomId)}/${encodeURIComponent(pageId)}`, {
+        method: "DELETE",
+        headers: tokenHeaders(token),
+    });
+    if (!res.ok) throw await readApiError(res);
+}
+
+export async function reorderBoardPages(roomId: string, order: string[], token: string | null): Promise<void> {
+    const res = await fetch(`/api/boards/${encodeURIComponent(roomId)}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json", ...tokenHeaders(token) },
+        body: JSON.stringify({ order }),
+    });
+    if (!res.ok) throw await readApiError(res);
+}
+
+// Returns null for boards saved before board state was kept apart from the pages
+export async function fetchBoardState(roomId: string, token: string | null): Promise<BoardState | null> {
+    const res = await fetch(`/api/boards/${encodeURIComponent(roomId)}/state`, {
+        cache: "no-store",
+        headers: tokenHeaders(token),
+    });
+    if (res.status === 404) return null;
+    if (!res.ok) throw await readApiError(res);
+    return (await res.json()) as BoardState;
+}
+
+export async function saveBoardState(
+    roomId: string,
+    changes: Partial<BoardState>,
+    token: string | null
+): Promise<void> {
+    const res = await fetch(`/api/boards/${encodeURIComponent(roomId)}/state`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json", ...tokenHeaders(token) },
+        body: JSON.stringify(changes),
+    });
+    if (!res.ok) throw await readApiError(res);
+}
+
+export interface UploadedAsset {
+    id: string;
+    url: string;
+}
+
+export async function uploadBoardAsset(roomId: string, file: Blob, token: string | null): Promise<UploadedAsset> {
+    const res = await fetch(`/api/boards/${encodeURIComponent(roomId)}/assets`, {
+        method: "POST",
+        headers: { "Content-Type": file.type, ...tokenHeaders(token) },
+        body: file,
+    });
+    if (!res.ok) throw await readApiError(res);
+    return (await res.json()) as UploadedAsset;
+}
+
+const checkpointsUrl = (roomId: string): string => `/api/boards/${encodeURIComponent(roomId)}/checkpoints`;
+
+// Newest first
+export async function listCheckpoints(roomId: string, pageId: string, token: string | null): Promise<CheckpointInfo[]> {
+    const res = await fetch(`${checkpointsUrl(roomId)}?pageId=${encodeURIComponent(pageId)}`, {
+        cache: "no-store",
+        headers: tokenHeaders(token),
+    });
+    if (!res.ok) throw await readApiError(res);
+    return (await res.json()) as CheckpointInfo[];
+}
+
+export async function fetchCheckpoint(roomId: string, checkpointId: string, token: string | null): Promise<Checkpoint> {
+    const res = await fetch(`${checkpointsUrl(roomId)}/${encodeURIComponent(checkpointId)}`, {
+        headers: tokenHeaders(token),
+    });
+    if (!res.ok) throw await readApiError(res);
+    return (await res.json()) as Checkpoint;
+}
+
+export async function saveCheckpoint(
+    roomId: string,
+    checkpoint: NewCheckpoint,
+    token: string | null
+): Promise<CheckpointInfo> {
+    const res = await fetch(checkpointsUrl(roomId), {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...tokenHeaders(token) },
+        body: JSON.stringify(checkpoint),
+    });
+    if (!res.ok) throw await readApiError(res);
+    return (await res.json()) as CheckpointInfo;
+}
@@ -0,0 +1,138 @@
+import type { Box, Editor, TLShapeId } from "@tldraw/tldraw";
+
+// Turns the board into a video track for the live pipeline. tldraw draws
+// shapes as SVG, not on a <canvas>, so the board is rasterised with
+// editor.toImage whenever it changes and painted onto a canvas we own, which
+// captureStream turns into a MediaStream.
+
+// The visible part of the current page, or one frame shape on it
+export type CanvasCaptureTarget = { kind: "viewport" } | { kind: "frame"; frameId: TLShapeId };
+
+export interface CanvasCaptureOptions {
+    width?: number;
+    height?: number;
+    frameRate?: number;
+}
+
+// StreamDiffusion works at 512x512
+const DEFAULT_SIZE = 512;
+const DEFAULT_FRAME_RATE = 15;
+// Rasterising is slow on big boards, so re-render at most this often
+const MIN_RENDER_INTERVAL = 150;
+
+export class CanvasCapture {
+    readonly stream: MediaStream;
+    // Also drawn from directly by the stream compositor
+    readonly canvas: HTMLCanvasElement;
+    private readonly ctx: CanvasRenderingContext2D;
+    private readonly timer: ReturnType<typeof setInterval>;
+    private readonly unlisten: () => void;
+    private frame: ImageBitmap | null = null;
+    private dirty = true;
+    private rendering = false;
+    private lastRender = 0;
+    private lastBounds: string | null = null;
+    private stopped = false;
+
+    constructor(
+        private readonly editor: Editor,
+        private target: CanvasCaptureTarget,
+        { width = DEFAULT_SIZE, height = DEFAULT_SIZE, frameRate = DEFAULT_FRAME_RATE }: CanvasCaptureOptions = {}
+    ) {
+        this.canvas = document.createElement("canvas");
+        this.canvas.width = width;
+        this.canvas.height = height;
+        const ctx = this.canvas.getContext("2d");
+        if (!ctx) throw new Error("Canvas capture is not supported in this browser");
+        this.ctx = ctx;
+        this.stream = this.canvas.captureStream(frameRate);
+        this.unlisten = editor.store.listen(() => (this.dirty = true), { scope: "document" });
+        // Repaint every tick even when nothing changed, so the track keeps producing frames
+        this.timer = setInterval(() => this.tick(), 1000 / frameRate);
+    }
+
+    setTarget(target: CanvasCaptureTarget): void {
+        this.target = target;
+        this.dirty = true;
+    }
+
+    stop(): void {
+        if (this.stopped) return;
+        this.stopped = true;
+        clearInterval(this.timer);
+        this.unlisten();
+        this.stream.getTracks().forEach((track) => track.stop());
+        this.frame?.close();
+        this.frame = null;
+    }
+
+    private getBounds(): Box | undefined {
+        return this.target.kind === "frame"
+            ? this.editor.getShapePageBounds(this.target.frameId)
+            : this.editor.getViewportPageBounds();
+    }
+
+    private tick(): void {
+        this.paint();
+        // Panning and zooming change the viewport without touching the document
+        const bounds = this.getBounds();
+        const boundsKey = bounds ? `${bounds.x},${bounds.y},${bounds.w},${bounds.h}` : null;
+        if (boundsKey !== this.lastBounds) {
+            this.lastBounds = boundsKey;
+            this.dirty = true;
+        }
+        if (this.dirty && !this.rendering && Date.now() - this.lastRender >= MIN_RENDER_INTERVAL) {
+            void this.render(bounds);
+        }
+    }
+
+    private async render(bounds: Box | undefined): Promise<void> {
+        this.dirty = false;
+        this.rendering = true;
+        this.lastRender = Date.now();
+        try {
+            const next = bounds ? await this.rasterise(bounds) : null;
+            if (this.stopped) {
+                next?.close();
+                return;
+            }
+            this.frame?.close();
+            this.frame = next;
+        } catch (err) {
+            console.warn("Canvas capture render failed:", err);
+        } finally {
+            this.rendering = false;
+        }
+    }
+
+    private async rasterise(bounds: Box): Promise<ImageBitmap | null> {
+        const ids =
+            this.target.kind === "frame"
+                ? [this.target.frameId]
+                : [...this.editor.getCurrentPageShapeIds()].filter((id) =>
+                      this.editor.getShapePageBounds(id)?.collides(bounds)
+                  );
+        if (ids.length === 0) return null;
+        const { blob } = await this.editor.toImage(ids, {
+            format: "png",
+            bounds,
+            background: true,
+            padding: 0,
+            pixelRatio: 1,
+            scale: Math.min(this.canvas.width / bounds.w, this.canvas.height / bounds.h),
+        });
+        return createImageBitmap(blob);
+    }
+
+    // Letterbox the latest frame onto the output canvas
+    private paint(): void {
+        const { width, height } = this.canvas;
+        this.ctx.fillStyle = "#ffffff";
+        this.ctx.fillRect(0, 0, width, height);
+        if (!this.frame) return;
+        const scale = Math.min(width / this.frame.width, height / this.frame.height);
+        const w = this.frame.width * scale;
+        const h = this.frame.height * scale;
+        this.ctx.drawImage(this.frame, (width - w) / 2, (height - h) / 2, w, h);
+    }
+}
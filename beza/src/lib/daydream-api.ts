@@ -0,0 +1,10 @@
+// Where the routes reach Daydream. Set DAYDREAM_API_URL to the local emulator
+// (`npm run dev:daydream`) to work without network access.
+const DAYDREAM_API_URL = (process.env.DAYDREAM_API_URL ?? "https://api.daydream.live").replace(/\/+$/, "");
+
+// `path` includes the API version, e.g. "/v1/streams"
+export const daydreamUrl = (path: string): string => `${DAYDREAM_API_URL}${path}`;
+
+export const daydreamAuthHeaders = (): Record<string, string> => ({
+    Authorization: `Bearer ${process.env.DAYDREAM_API_KEY ?? ""}`,
+});
@@ -0,0 +1,353 @@
+import { ApiError, readApiError } from "@/lib/api-errors";
+import {
+    parseResponse,
+    promptJobResponse,
+    streamResponse,
+    type StreamResponse,
+    type UpdateStreamRequest,
+} from "@/lib/api-schemas";
+import type { GenerationParams } from "@/lib/generation-params";
+import type { PromptJob } from "@/lib/types";
+
+export type DaydreamSessionState =
+    | "idle"
+    | "creating"
+    | "connecting"
+    | "live"
+    | "failed"
+    | "closed";
+
+// Allowed transitions; anything else is a bug in the caller
+const TRANSITIONS: Record<DaydreamSessionState, DaydreamSessionState[]> = {
+    idle: ["creating", "closed"],
+    creating: ["connecting", "failed", "closed"],
+    connecting: ["live", "failed", "closed"],
+    live: ["failed", "closed"],
+    failed: ["creating", "closed"],
+    closed: [],
+};
+
+export interface DaydreamSessionOptions {
+    // Server default when omitted
+    pipelineId?: string;
+    // Initial generation params for the stream
+    params?: GenerationParams;
+    maxAttempts?: number;
+    iceGatheringTimeout?: number;
+    onStateChange?: (state: DaydreamSessionState, error?: Error) => void;
+}
+
+export type DaydreamPromptResult = {
+    id?: string;
+    status?: string;
+    output_rtmp_url?: string;
+    [key: string]: unknown;
+};
+
+export interface PromptOptions {
+    params?: GenerationParams;
+    onProgress?: (job: PromptJob) => void;
+    // Aborting cancels the job on the server
+    signal?: AbortSignal;
+}
+
+export class PromptCancelledError extends Error {
+    constructor() {
+        super("Prompt cancelled");
+        this.name = "PromptCancelledError";
+    }
+}
+
+const ICE_SERVERS: RTCIceServer[] = [{ urls: "stun:stun.l.google.com:19302" }];
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_ICE_GATHERING_TIMEOUT = 5_000;
+const RETRY_DELAY = 1_000;
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// WHIP does not trickle candidates, so the offer must contain all of them
+function waitForIceGathering(pc: RTCPeerConnection, timeout: number): Promise<void> {
+    if (pc.iceGatheringState === "complete") return Promise.resolve();
+    return new Promise((resolve) => {
+        const done = () => {
+            clearTimeout(timer);
+            pc.removeEventListener("icegatheringstatechange", onChange);
+            resolve();
+        };
+        const onChange = () => {
+            if (pc.iceGatheringState === "complete") done();
+        };
+        // Send whatever we have gathered so far rather than hanging forever
+        const timer = setTimeout(done, timeout);
+        pc.addEventListener("icegatheringstatechange", onChange);
+    });
+}
+
+const promptJobUrl = (jobId: string) => `/api/daydream/prompt/${encodeURIComponent(jobId)}`;
+
+// Follow a prompt job over SSE until it finishes
+function followPromptJob(job: PromptJob, options: PromptOptions): Promise<DaydreamPromptResult> {
+    const { onProgress, signal } = options;
+    return new Promise((resolve, reject) => {
+        const events = new EventSource(`${promptJobUrl(job.id)}/events`);
+        const finish = () => {
+            events.close();
+            signal?.removeEventListener("abort", onAbort);
+        };
+        const onAbort = () => {
+            finish();
+            fetch(promptJobUrl(job.id), { method: "DELETE", keepalive: true }).catch(() => { });
+            reject(new PromptCancelledError());
+        };
+
+        events.onmessage = (event: MessageEvent<string>) => {
+            let update: PromptJob;
+            try {
+                update = parseResponse(promptJobResponse, JSON.parse(event.data));
+            } catch (err) {
+                finish();
+                reject(err);
+                return;
+            }
+            onProgress?.(update);
+            if (update.status === "succeeded") {
+                finish();
+                resolve((update.result ?? {}) as DaydreamPromptResult);
+            } else if (update.status === "failed") {
+                finish();
+                reject(
+                    update.error
+                        ? ApiError.fromInfo(update.error)
+                        : new ApiError("upstream_error", "Prompt failed to process")
+                );
+            } else if (update.status === "cancelled") {
+                finish();
+                reject(new PromptCancelledError());
+            }
+        };
+        // EventSource retries dropped connections itself; only give up once it stops trying
+        events.onerror = () => {
+            if (events.readyState !== EventSource.CLOSED) return;
+            finish();
+            reject(new ApiError("upstream_down", "Lost connection to prompt job"));
+        };
+
+        if (signal?.aborted) onAbort();
+        else signal?.addEventListener("abort", onAbort);
+    });
+}
+
+/**
+ * One Daydream live stream fed over WHIP from a local MediaStream.
+ *
+ * The stream and peer connection are created once by `start` and reused for
+ * every prompt; `close` tears both down. Create a new session after `close`.
+ */
+export class DaydreamSession {
+    private _state: DaydreamSessionState = "idle";
+    private pc: RTCPeerConnection | null = null;
+    private whipResourceUrl: string | null = null;
+    private stream: StreamResponse | null = null;
+
+    constructor(private readonly options: DaydreamSessionOptions) { }
+
+    get state(): DaydreamSessionState {
+        return this._state;
+    }
+
+    get streamId(): string | null {
+        return this.stream?.id ?? null;
+    }
+
+    // For playing the output in the browser, see resolvePlayback
+    get playbackId(): string | null {
+        return this.stream?.output_playback_id ?? null;
+    }
+
+    get isLive(): boolean {
+        return this._state === "live";
+    }
+
+    private transition(next: DaydreamSessionState, error?: Error): void {
+        if (this._state === next) return;
+        if (!TRANSITIONS[this._state].includes(next)) {
+            throw new Error(`Invalid Daydream session transition: ${this._state} -> ${next}`);
+        }
+        this._state = next;
+        this.options.onStateChange?.(next, error);
+    }
+
+    // Create the remote stream and push `input` to it, retrying the whole handshake on failure
+    async start(input: MediaStream): Promise<void> {
+        if (this._state !== "idle" && this._state !== "failed") {
+            throw new Error(`Cannot start a Daydream session that is ${this._state}`);
+        }
+        const maxAttempts = this.options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+        let lastError: Error | null = null;
+
+        for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+            if (this.isClosed()) return;
+            try {
+                this.transition("creating");
+                this.stream = await this.createStream();
+                if (this.isClosed()) return this.deleteStream();
+
+                this.transition("connecting");
+                await this.connect(this.stream, input);
+                if (this.isClosed()) return;
+
+                this.transition("live");
+                return;
+            } catch (err) {
+                lastError = err instanceof Error ? err : new Error(String(err));
+                console.warn(`Daydream session attempt ${attempt}/${maxAttempts} failed:`, lastError);
+                this.teardownPeer();
+                // Never leave a half-set-up stream running upstream
+                this.deleteStream();
+                if (this.isClosed()) return;
+                this.transition("failed", lastError);
+                // Quota, auth and bad input will not fix themselves on a retry
+                if (lastError instanceof ApiError && !lastError.retryable) break;
+                if (attempt < maxAttempts) await delay(RETRY_DELAY * attempt);
+            }
+        }
+        throw lastError ?? new Error("Failed to start Daydream session");
+    }
+
+    // Swap the outgoing tracks without renegotiating, e.g. when the camera restarts
+    async setInputStream(input: MediaStream): Promise<void> {
+        if (!this.pc) return;
+        const senders = this.pc.getSenders();
+        await Promise.all(
+            input.getTracks().map((track) => {
+                const sender = senders.find((s) => s.track?.kind === track.kind);
+                return sender?.replaceTrack(track);
+            })
+        );
+    }
+
+    // Send a new prompt to the running stream and wait for the job to finish
+    async setPrompt(prompt: string, options: PromptOptions = {}): Promise<DaydreamPromptResult> {
+        if (!this.isLive || !this.stream) {
+            throw new Error("Daydream session is not live");
+        }
+        const res = await fetch("/api/daydream/prompt", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ stream_id: this.stream.id, prompt, params: options.params }),
+            signal: options.signal,
+        }).catch((err: unknown) => {
+            throw options.signal?.aborted ? new PromptCancelledError() : err;
+        });
+        if (!res.ok) throw await readApiError(res);
+        const job = parseResponse(promptJobResponse, await res.json());
+        options.onProgress?.(job);
+        return followPromptJob(job, options);
+    }
+
+    async getStatus(): Promise<StreamResponse> {
+        if (!this.stream) throw new Error("Daydream session has no stream");
+        const res = await fetch(`/api/daydream/stream/${encodeURIComponent(this.stream.id)}`, {
+            cache: "no-store",
+        });
+        if (!res.ok) throw await readApiError(res);
+        this.stream = parseResponse(streamResponse, await res.json());
+        return this.stream;
+    }
+
+    // Change the running stream in place, e.g. a new prompt while the user types
+    async updateParams(params: UpdateStreamRequest["params"]): Promise<StreamResponse> {
+        if (!this.isLive || !this.stream) throw new Error("Daydream session is not live");
+        const res = await fetch(`/api/daydream/stream/${encodeURIComponent(this.stream.id)}`, {
+            method: "PATCH",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ params }),
+        });
+        if (!res.ok) throw await readApiError(res);
+        this.stream = parseResponse(streamResponse, await res.json());
+        return this.stream;
+    }
+
+    // Stop pushing and delete the remote stream. Requests use keepalive so they
+    // still go out when called while the page is unloading.
+    close(): void {
+        if (this._state === "closed") return;
+        this.transition("closed");
+        this.teardownPeer();
+        if (this.whipResourceUrl) {
+            // Best effort: tell the WHIP endpoint the session is over
+            fetch(this.whipResourceUrl, { method: "DELETE", keepalive: true }).catch(() => { });
+            this.whipResourceUrl = null;
+        }
+        this.deleteStream();
+    }
+
+    private isClosed(): boolean {
+        return this._state === "closed";
+    }
+
+    private async createStream(): Promise<StreamResponse> {
+        const res = await fetch("/api/daydream/stream", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+                pipeline_id: this.options.pipelineId,
+                params: this.options.params,
+            }),
+        });
+        if (!res.ok) throw await readApiError(res);
+        return parseResponse(streamResponse, await res.json());
+    }
+
+    private async connect(stream: StreamResponse, input: MediaStream): Promise<void> {
+        const whipUrl = stream.whip_url;
+        if (typeof whipUrl !== "string") throw new Error("Stream has no WHIP url");
+
+        const pc = new RTCPeerConnection({ iceServers: ICE_SERVERS });
+        this.pc = pc;
+        input.getTracks().forEach((track) => pc.addTransceiver(track, { direction: "sendonly", streams: [input] }));
+        pc.addEventListener("connectionstatechange", () => {
+            if (pc !== this.pc) return;
+            if (pc.connectionState === "failed" && this._state === "live") {
+                this.teardownPeer();
+                this.deleteStream();
+                this.transition("failed", new Error("Peer connection failed"));
+            }
+        });
+
+        const offer = await pc.createOffer();
+        await pc.setLocalDescription(offer);
+        await waitForIceGathering(pc, this.options.iceGatheringTimeout ?? DEFAULT_ICE_GATHERING_TIMEOUT);
+
+        const res = await fetch(whipUrl, {
+            method: "POST",
+            headers: { "Content-Type": "application/sdp" },
+            body: pc.localDescription?.sdp ?? offer.sdp,
+        });
+        if (!res.ok) throw new Error("Failed to send stream to WHIP");
+        const location = res.headers.get("Location");
+        this.whipResourceUrl = location ? new URL(location, whipUrl).toString() : null;
+
+        const answer = await res.text();
+        await pc.setRemoteDescription({ type: "answer", sdp: answer });
+    }
+
+    private deleteStream(): void {
+        if (!this.stream) return;
+        fetch(`/api/daydream/stream/${encodeURIComponent(this.stream.id)}`, {
+            method: "DELETE",
+            keepalive: true,
+        }).catch((err) => console.warn("Failed to delete stream:", err));
+        this.stream = null;
+    }
+
+    private teardownPeer(): void {
+        if (!this.pc) return;
+        this.pc.getSenders().forEach((sender) => {
+            // Only detach; the tracks belong to the caller (e.g. the webcam)
+            sender.replaceTrack(null).catch(() => { });
+        });
+        this.pc.close();
+        this.pc = null;
+    }
+}
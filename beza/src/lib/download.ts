@@ -0,0 +1,10 @@
+// Save a blob through the browser's download prompt
+export function downloadBlob(filename: string, blob: Blob): void {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = filename;
+    link.click();
+    // Give the download a moment to start before the URL goes away
+    setTimeout(() => URL.revokeObjectURL(url), 1_000);
+}
@@ -0,0 +1,91 @@
+import type { Editor, TLShapeId } from "@tldraw/tldraw";
+import { readDocumentMeta, writeDocumentMeta } from "@/lib/board-settings";
+import { PromptCancelledError } from "@/lib/daydream-session";
+import type { GenerationParams } from "@/lib/generation-params";
+
+// Every enhance, generate and render run on the board, newest first. Kept in the
+// document meta next to the board settings so collaborators see the same list.
+
+export type GenerationKind = "enhance" | "generate" | "render";
+export type GenerationStatus = "running" | "succeeded" | "failed" | "cancelled";
+
+export interface GenerationHistoryEntry {
+    id: string;
+    kind: GenerationKind;
+    prompt: string;
+    params: GenerationParams;
+    // Stream pipeline for enhance/generate, oneshot model for render; null means the server default
+    pipelineId: string | null;
+    status: GenerationStatus;
+    outputUrl: string | null;
+    error: string | null;
+    // Render only: what was rendered, so it can be run again
+    sourceShapeIds: TLShapeId[];
+    createdAt: string;
+    finishedAt: string | null;
+}
+
+export type NewGenerationEntry = Pick<GenerationHistoryEntry, "kind" | "prompt" | "params" | "pipelineId"> &
+    Partial<Pick<GenerationHistoryEntry, "sourceShapeIds">>;
+
+const HISTORY_KEY = "generationHistory";
+// The whole list travels with every change to it, so keep it bounded
+export const MAX_HISTORY_ENTRIES = 50;
+
+export function getGenerationHistory(editor: Editor): GenerationHistoryEntry[] {
+    const history = readDocumentMeta(editor, HISTORY_KEY);
+    return Array.isArray(history) ? (history as unknown as GenerationHistoryEntry[]) : [];
+}
+
+const writeHistory = (editor: Editor, history: GenerationHistoryEntry[]) =>
+    writeDocumentMeta(editor, HISTORY_KEY, history.slice(0, MAX_HISTORY_ENTRIES), { trackHistory: false });
+
+function addEntry(editor: Editor, entry: NewGenerationEntry): string {
+    const id = crypto.randomUUID();
+    writeHistory(editor, [
+        {
+            sourceShapeIds: [],
+            ...entry,
+            id,
+            status: "running",
+            outputUrl: null,
+            error: null,
+            createdAt: new Date().toISOString(),
+            finishedAt: null,
+        },
+        ...getGenerationHistory(editor),
+    ]);
+    return id;
+}
+
+function finishEntry(editor: Editor, id: string, changes: Partial<GenerationHistoryEntry>): void {
+    writeHistory(
+        editor,
+        getGenerationHistory(editor).map((entry) =>
+            entry.id === id ? { ...entry, ...changes, finishedAt: new Date().toISOString() } : entry
+        )
+    );
+}
+
+// Record `run` in the history; it resolves with the output URL, if any
+export async function trackGeneration(
+    editor: Editor,
+    entry: NewGenerationEntry,
+    run: () => Promise<string | null>
+): Promise<string | null> {
+    const id = addEntry(editor, entry);
+    try {
+        const outputUrl = await run();
+        finishEntry(editor, id, outputUrl ? { status: "succeeded", outputUrl } : { status: "failed", error: "No output" });
+        return outputUrl;
+    } catch (err) {
+        finishEntry(
+            editor,
+            id,
+            err instanceof PromptCancelledError
+                ? { status: "cancelled" }
+                : { status: "failed", error: err instanceof Error ? err.message : String(err) }
+        );
+        throw err;
+    }
+}
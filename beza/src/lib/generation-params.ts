@@ -0,0 +1,52 @@
+import { number, object, optional, safeParse, string, type Schema } from "@/lib/schema";
+
+// Generation parameters shared by the prompt, oneshot and stream routes. Names
+// follow the Daydream API so validated values can be passed straight through.
+// Used on both the server and the client, so keep this free of Node imports.
+
+export interface GenerationParams {
+    guidance_scale?: number;
+    num_inference_steps?: number;
+    seed?: number;
+    negative_prompt?: string;
+    strength?: number;
+}
+
+type NumericParam = "guidance_scale" | "num_inference_steps" | "seed" | "strength";
+
+export const NUMERIC_PARAM_LIMITS: Record<NumericParam, { min: number; max: number; integer: boolean }> = {
+    guidance_scale: { min: 0, max: 20, integer: false },
+    num_inference_steps: { min: 1, max: 100, integer: true },
+    seed: { min: 0, max: 4_294_967_295, integer: true },
+    strength: { min: 0, max: 1, integer: false },
+};
+
+export const MAX_NEGATIVE_PROMPT_LENGTH = 1_000;
+
+export const generationParamsShape = {
+    guidance_scale: optional(number(NUMERIC_PARAM_LIMITS.guidance_scale)),
+    num_inference_steps: optional(number(NUMERIC_PARAM_LIMITS.num_inference_steps)),
+    seed: optional(number(NUMERIC_PARAM_LIMITS.seed)),
+    strength: optional(number(NUMERIC_PARAM_LIMITS.strength)),
+    negative_prompt: optional(string({ max: MAX_NEGATIVE_PROMPT_LENGTH })),
+};
+
+const withoutBlankNegativePrompt = <T extends GenerationParams>(params: T): T => {
+    if (params.negative_prompt?.trim()) return params;
+    const rest = { ...params };
+    delete rest.negative_prompt;
+    return rest;
+};
+
+// Missing or null means "no overrides"
+export const generationParamsSchema: Schema<GenerationParams> = (value, path) =>
+    withoutBlankNegativePrompt(optional(object(generationParamsShape))(value, path) ?? {});
+
+export type ParsedGenerationParams =
+    | { ok: true; params: GenerationParams }
+    | { ok: false; error: string };
+
+export function parseGenerationParams(value: unknown): ParsedGenerationParams {
+    const parsed = safeParse(generationParamsSchema, value);
+    return parsed.ok ? { ok: true, params: parsed.value } : parsed;
+}
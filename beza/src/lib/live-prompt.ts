@@ -0,0 +1,89 @@
+import debounce from "lodash.debounce";
+import type { DaydreamSession } from "@/lib/daydream-session";
+import { NUMERIC_PARAM_LIMITS } from "@/lib/generation-params";
+
+// Sends prompt edits to a running stream while the user types, blending from
+// the old prompt to the new one with weighted prompts instead of cutting over.
+
+export interface LivePromptSettings {
+    // Send edits as the user types, not only on Enhance/Generate
+    updateWhileTyping: boolean;
+    // How long a prompt change blends in; 0 switches at once
+    crossfadeMs: number;
+    // Kept across prompt changes so the composition stays put; null picks a new seed per prompt
+    lockedSeed: number | null;
+}
+
+export const DEFAULT_LIVE_PROMPT_SETTINGS: LivePromptSettings = {
+    updateWhileTyping: true,
+    crossfadeMs: 1_000,
+    lockedSeed: null,
+};
+
+export const MAX_CROSSFADE_MS = 5_000;
+const TYPING_DEBOUNCE_MS = 600;
+const CROSSFADE_STEP_MS = 250;
+
+export const randomSeed = (): number => Math.floor(Math.random() * NUMERIC_PARAM_LIMITS.seed.max);
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export class LivePromptController {
+    // What the stream is showing, or fading to
+    private current: string | null = null;
+    // Bumped by every change so a newer prompt stops an older crossfade
+    private generation = 0;
+    private readonly debouncedApply = debounce((prompt: string) => void this.apply(prompt), TYPING_DEBOUNCE_MS);
+
+    constructor(
+        private readonly session: DaydreamSession,
+        private settings: LivePromptSettings,
+        private readonly onError?: (err: unknown) => void
+    ) {}
+
+    setSettings(settings: LivePromptSettings): void {
+        this.settings = settings;
+    }
+
+    // The prompt the stream was started with, so the first edit fades from it
+    setCurrent(prompt: string): void {
+        this.current = prompt.trim();
+    }
+
+    update(prompt: string): void {
+        if (prompt.trim()) this.debouncedApply(prompt.trim());
+    }
+
+    cancel(): void {
+        this.debouncedApply.cancel();
+        this.generation++;
+    }
+
+    private async apply(prompt: string): Promise<void> {
+        if (prompt === this.current || !this.session.isLive) return;
+        const generation = ++this.generation;
+        const from = this.current;
+        this.current = prompt;
+        const seed = this.settings.lockedSeed ?? undefined;
+        const steps = Math.round(this.settings.crossfadeMs / CROSSFADE_STEP_MS);
+        try {
+            // Nothing to fade from on the first prompt
+            for (let step = 1; from && step < steps; step++) {
+                const weight = step / steps;
+                await this.session.updateParams({
+                    prompt: [
+                        [from, 1 - weight],
+                        [prompt, weight],
+                    ],
+                    seed,
+                });
+                await delay(CROSSFADE_STEP_MS);
+                if (generation !== this.generation) return;
+            }
+            // An unlocked seed changes only once the new prompt is fully in
+            await this.session.updateParams({ prompt, seed: seed ?? randomSeed() });
+        } catch (err) {
+            if (generation === this.generation) this.onError?.(err);
+        }
+    }
+}
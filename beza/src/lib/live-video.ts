@@ -0,0 +1,71 @@
+import { createShapeId, type Editor, type TLBaseShape, type TLShapeId } from "@tldraw/tldraw";
+
+// Generated videos and live pipeline output on the board. The shape itself is
+// drawn by LiveVideoShapeUtil; this module holds what the page needs without React.
+
+export const LIVE_VIDEO_TYPE = "live-video";
+
+export type LiveVideoShape = TLBaseShape<
+    typeof LIVE_VIDEO_TYPE,
+    {
+        w: number;
+        h: number;
+        // Whatever the pipeline returned: HLS, RTMP or a plain video file
+        src: string;
+        // Daydream output playback id; when set it wins over `src`
+        playbackId: string;
+        // Still shown before playback starts; a data URL or an image URL
+        poster: string;
+        playing: boolean;
+        muted: boolean;
+    }
+>;
+
+export interface PlaybackSource {
+    src: string;
+    type: string;
+}
+
+const HLS_TYPE = "application/x-mpegURL";
+const HLS_PLAYBACK_URL =
+    process.env.NEXT_PUBLIC_HLS_PLAYBACK_URL ?? "https://livepeercdn.studio/hls/{playbackId}/index.m3u8";
+
+const FILE_TYPES: Record<string, string> = {
+    webm: "video/webm",
+    mp4: "video/mp4",
+    mov: "video/quicktime",
+};
+
+/**
+ * What video.js should play for a shape. Browsers cannot play RTMP, so a
+ * stream is played through the HLS rendition of its playback id; an RTMP
+ * URL without one has nothing playable and gives null.
+ */
+export function resolvePlayback(src: string, playbackId: string): PlaybackSource | null {
+    if (playbackId) {
+        return { src: HLS_PLAYBACK_URL.replace("{playbackId}", encodeURIComponent(playbackId)), type: HLS_TYPE };
+    }
+    if (!src || /^rtmps?:\/\//i.test(src)) return null;
+    const extension = new URL(src, "http://localhost").pathname.split(".").pop()?.toLowerCase() ?? "";
+    if (extension === "m3u8") return { src, type: HLS_TYPE };
+    return { src, type: FILE_TYPES[extension] ?? "video/mp4" };
+}
+
+const DEFAULT_SIZE = { w: 320, h: 180 };
+
+export function insertLiveVideo(
+    editor: Editor,
+    { src, playbackId = "", name }: { src: string; playbackId?: string; name?: string }
+): TLShapeId {
+    const center = editor.getViewportPageBounds().center;
+    const id = createShapeId();
+    editor.createShape<LiveVideoShape>({
+        id,
+        type: LIVE_VIDEO_TYPE,
+        x: center.x - DEFAULT_SIZE.w / 2,
+        y: center.y - DEFAULT_SIZE.h / 2,
+        props: { ...DEFAULT_SIZE, src, playbackId, poster: "", playing: true, muted: true },
+        meta: { name: name ?? `Video ${editor.getCurrentPageShapes().length + 1}`, hidden: false },
+    });
+    return id;
+}
@@ -0,0 +1,143 @@
+import { getSnapshot, type Editor, type JsonObject, type TLEditorSnapshot, type TLRecord } from "@tldraw/tldraw";
+import { blobToDataUrl } from "@/lib/ai-render";
+import { loadBoardSnapshot } from "@/lib/board-migrations";
+import { readDocumentMeta, writeDocumentMeta } from "@/lib/board-settings";
+import type { PageData } from "@/lib/types";
+
+// Pages of a board. Each page is a separate tldraw snapshot; the editor shows
+// one at a time, and the shown page's id is kept in the document meta so every
+// client in the room knows which page the shared document belongs to. The rest
+// of the document meta (settings, presets, history) belongs to the board and
+// follows it from page to page.
+
+const PAGE_ID_KEY = "pageId";
+const THUMBNAIL_WIDTH = 160;
+
+export const generateShortId = (): string => {
+    const chars = "abcdefghijklmnopqrstuvwxyz0123456789";
+    return Array.from({ length: 3 }, () =>
+        Array.from({ length: 3 }, () => chars[Math.floor(Math.random() * chars.length)]).join("")
+    ).join("-");
+};
+
+export const createPage = (name: string): PageData => ({ id: generateShortId(), name, canvasData: null });
+
+export const nextPageName = (pages: PageData[]): string => {
+    const taken = new Set(pages.map((p) => p.name));
+    let n = pages.length + 1;
+    while (taken.has(`Page ${n}`)) n++;
+    return `Page ${n}`;
+};
+
+export const duplicatePage = (page: PageData): PageData => ({
+    ...page,
+    id: generateShortId(),
+    name: `${page.name} copy`,
+    canvasData: page.canvasData ? structuredClone(page.canvasData) : null,
+});
+
+export function movePage(pages: PageData[], pageId: string, toIndex: number): PageData[] {
+    const from = pages.findIndex((p) => p.id === pageId);
+    if (from === -1 || from === toIndex) return pages;
+    const next = [...pages];
+    const [page] = next.splice(from, 1);
+    next.splice(Math.max(0, Math.min(toIndex, next.length)), 0, page);
+    return next;
+}
+
+// What collaborators are sent when the pages are added, renamed, deleted or moved
+export type PageListEntry = Pick<PageData, "id" | "name">;
+
+export const toPageList = (pages: PageData[]): PageListEntry[] => pages.map(({ id, name }) => ({ id, name }));
+
+export const isSamePageList = (a: PageListEntry[], b: PageListEntry[]): boolean =>
+    a.length === b.length && a.every((page, i) => page.id === b[i].id && page.name === b[i].name);
+
+/**
+ * The pages in the order and with the names of a collaborator's `list`. Content
+ * comes from our own pages, then from `fetched` for pages we do not have yet;
+ * pages that are in neither are left out.
+ */
+export function applyPageList(list: PageListEntry[], pages: PageData[], fetched: PageData[] = []): PageData[] {
+    const known = new Map([...fetched, ...pages].map((page) => [page.id, page]));
+    return list.flatMap((entry) => {
+        const page = known.get(entry.id);
+        return page ? [{ ...page, name: entry.name }] : [];
+    });
+}
+
+export function getShownPageId(editor: Editor): string | null {
+    const pageId = readDocumentMeta(editor, PAGE_ID_KEY);
+    return typeof pageId === "string" ? pageId : null;
+}
+
+/** The document meta that belongs to the board rather than to the shown page. */
+export function getBoardMeta(editor: Editor): JsonObject {
+    return Object.fromEntries(
+        Object.entries(editor.getDocumentSettings().meta).filter(([key]) => key !== PAGE_ID_KEY)
+    ) as JsonObject;
+}
+
+function replaceBoardMeta(editor: Editor, meta: JsonObject, pageId: string | null): void {
+    editor.updateDocumentSettings({ meta: pageId === null ? meta : { ...meta, [PAGE_ID_KEY]: pageId } });
+}
+
+/** Put the board meta saved on the server in the editor, as a remote change. */
+export function applyBoardMeta(editor: Editor, meta: JsonObject): void {
+    editor.store.mergeRemoteChanges(() => replaceBoardMeta(editor, meta, getShownPageId(editor)));
+}
+
+// Board-level state (settings, presets, history) stays; the content goes
+const CONTENT_TYPES = new Set<TLRecord["typeName"]>(["shape", "asset", "binding"]);
+
+/** The current document with its content removed, to start a new page from. */
+export function blankSnapshot(editor: Editor): TLEditorSnapshot {
+    const snapshot = getSnapshot(editor.store);
+    const store = Object.fromEntries(
+        Object.entries(snapshot.document.store).filter(([, record]) => !CONTENT_TYPES.has(record.typeName))
+    ) as typeof snapshot.document.store;
+    return { ...snapshot, document: { ...snapshot.document, store } };
+}
+
+/**
+ * Show a page in the editor, migrating it if it was saved by an older version.
+ * Loaded as a remote change so the caller decides whether it reaches the room.
+ * When a page was already shown, the board meta is kept from it rather than
+ * rolled back to what this page was saved with; otherwise the page id is
+ * written afterwards as a normal change. Returns the ids of the records the
+ * previous page had, and how many of the page's records could not be recovered.
+ */
+export function loadPage(editor: Editor, page: PageData): { previous: Set<TLRecord["id"]>; dropped: number } {
+    const previous = new Set(Object.keys(editor.store.serialize("document")) as TLRecord["id"][]);
+    const snapshot = page.canvasData ?? blankSnapshot(editor);
+    const boardMeta = getShownPageId(editor) === null ? null : getBoardMeta(editor);
+    let dropped = 0;
+    editor.store.mergeRemoteChanges(() => {
+        dropped = loadBoardSnapshot(editor, snapshot);
+        if (boardMeta) replaceBoardMeta(editor, boardMeta, page.id);
+    });
+    editor.clearHistory();
+    return { previous, dropped };
+}
+
+export function markShownPage(editor: Editor, pageId: string): void {
+    if (getShownPageId(editor) !== pageId) writeDocumentMeta(editor, PAGE_ID_KEY, pageId, { trackHistory: false });
+}
+
+/** A small PNG of the current page for the page strip; null when it is empty. */
+export async function renderThumbnail(editor: Editor): Promise<string | null> {
+    const shapeIds = [...editor.getCurrentPageShapeIds()];
+    const bounds = editor.getCurrentPageBounds();
+    if (shapeIds.length === 0 || !bounds) return null;
+    try {
+        const { blob } = await editor.toImage(shapeIds, {
+            format: "png",
+            background: true,
+            scale: Math.min(1, THUMBNAIL_WIDTH / Math.max(bounds.w, 1)),
+        });
+        return blob ? await blobToDataUrl(blob) : null;
+    } catch (err) {
+        console.error("Failed to render page thumbnail:", err);
+        return null;
+    }
+}
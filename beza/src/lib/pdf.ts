@@ -0,0 +1,82 @@
+// Just enough PDF to put one JPEG on each page, so multi-page export needs no
+// PDF library. Page sizes are in points (1/72 inch).
+
+export interface PdfPage {
+    jpeg: Uint8Array;
+    // Size to show it at
+    pointWidth: number;
+    pointHeight: number;
+}
+
+const encoder = new TextEncoder();
+
+// Pixel size from the JPEG's start-of-frame header; PDF readers want it to match
+function jpegSize(jpeg: Uint8Array): { width: number; height: number } {
+    let i = 2;
+    while (i + 9 < jpeg.length) {
+        if (jpeg[i] !== 0xff) {
+            i++;
+            continue;
+        }
+        const marker = jpeg[i + 1];
+        // SOF0..SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+        if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+            return { height: (jpeg[i + 5] << 8) | jpeg[i + 6], width: (jpeg[i + 7] << 8) | jpeg[i + 8] };
+        }
+        i += 2 + ((jpeg[i + 2] << 8) | jpeg[i + 3]);
+    }
+    throw new Error("Not a JPEG image");
+}
+
+export function buildPdf(pages: PdfPage[]): Blob {
+    const chunks: Uint8Array[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+    const write = (chunk: string | Uint8Array) => {
+        const bytes = typeof chunk === "string" ? encoder.encode(chunk) : chunk;
+        chunks.push(bytes);
+        length += bytes.length;
+    };
+    // Objects are numbered from 1 in the order they are written
+    const object = (body: () => void) => {
+        offsets.push(length);
+        write(`${offsets.length} 0 obj\n`);
+        body();
+        write("\nendobj\n");
+    };
+
+    // 1: catalog, 2: page tree, then page, content and image for each page
+    const pageObject = (index: number) => 3 + index * 3;
+    write("%PDF-1.4\n%\xE2\xE3\xCF\xD3\n");
+    object(() => write("<< /Type /Catalog /Pages 2 0 R >>"));
+    object(() =>
+        write(`<< /Type /Pages /Kids [${pages.map((_, i) => `${pageObject(i)} 0 R`).join(" ")}] /Count ${pages.length} >>`)
+    );
+    pages.forEach((page, i) => {
+        const w = page.pointWidth.toFixed(2);
+        const h = page.pointHeight.toFixed(2);
+        const content = `q ${w} 0 0 ${h} 0 0 cm /Im0 Do Q`;
+        const { width, height } = jpegSize(page.jpeg);
+        object(() =>
+            write(
+                `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${w} ${h}] ` +
+                    `/Resources << /XObject << /Im0 ${pageObject(i) + 2} 0 R >> >> /Contents ${pageObject(i) + 1} 0 R >>`
+            )
+        );
+        object(() => write(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`));
+        object(() => {
+            write(
+                `<< /Type /XObject /Subtype /Image /Width ${width} /Height ${height} ` +
+                    `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>\nstream\n`
+            );
+            write(page.jpeg);
+            write("\nendstream");
+        });
+    });
+
+    const xrefOffset = length;
+    write(`xref\n0 ${offsets.length + 1}\n0000000000 65535 f \n`);
+    for (const offset of offsets) write(`${String(offset).padStart(10, "0")} 00000 n \n`);
+    write(`trailer\n<< /Size ${offsets.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+    return new Blob(chunks as BlobPart[], { type: "application/pdf" });
+}
@@ -0,0 +1,63 @@
+import { readFile } from "fs/promises";
+import type { DaydreamPipelineOption, DaydreamPipelineRegistry } from "@/lib/types";
+
+// Server-side registry of the stream pipelines and oneshot models boards may
+// pick from. Point DAYDREAM_PIPELINES_FILE at a JSON file with the same shape
+// as DEFAULT_REGISTRY to change it without a rebuild.
+const DEFAULT_REGISTRY: DaydreamPipelineRegistry = {
+    pipelines: [{ id: "pip_qpUgXycjWF6YMeSL", name: "StreamDiffusion" }],
+    models: [{ id: "streamdiffusion", name: "StreamDiffusion" }],
+    defaultPipelineId: "pip_qpUgXycjWF6YMeSL",
+    defaultModelId: "streamdiffusion",
+};
+
+let cached: Promise<DaydreamPipelineRegistry> | null = null;
+
+const isOptionList = (value: unknown): value is DaydreamPipelineOption[] =>
+    Array.isArray(value) &&
+    value.length > 0 &&
+    value.every(
+        (option) =>
+            typeof option === "object" &&
+            option !== null &&
+            typeof option.id === "string" &&
+            typeof option.name === "string"
+    );
+
+async function loadRegistry(): Promise<DaydreamPipelineRegistry> {
+    const file = process.env.DAYDREAM_PIPELINES_FILE;
+    if (!file) return DEFAULT_REGISTRY;
+
+    const config = JSON.parse(await readFile(file, "utf8")) as Partial<DaydreamPipelineRegistry>;
+    if (!isOptionList(config.pipelines) || !isOptionList(config.models)) {
+        throw new Error(`${file} must list at least one pipeline and one model`);
+    }
+    return {
+        pipelines: config.pipelines,
+        models: config.models,
+        defaultPipelineId: config.defaultPipelineId ?? config.pipelines[0].id,
+        defaultModelId: config.defaultModelId ?? config.models[0].id,
+    };
+}
+
+export function getPipelineRegistry(): Promise<DaydreamPipelineRegistry> {
+    cached ??= loadRegistry().catch((err) => {
+        // Retry on the next request rather than caching a broken config
+        cached = null;
+        throw err;
+    });
+    return cached;
+}
+
+// The requested pipeline, the default when none was given, or null when it is not allowed
+export async function resolvePipelineId(requested: unknown): Promise<string | null> {
+    const registry = await getPipelineRegistry();
+    if (requested === undefined || requested === null || requested === "") return registry.defaultPipelineId;
+    return registry.pipelines.some((p) => p.id === requested) ? (requested as string) : null;
+}
+
+export async function resolveModelId(requested: unknown): Promise<string | null> {
+    const registry = await getPipelineRegistry();
+    if (requested === undefined || requested === null || requested === "") return registry.defaultModelId;
+    return registry.models.some((m) => m.id === requested) ? (requested as string) : null;
+}
@@ -0,0 +1,115 @@
+import {
+    Editor,
+    InstancePresenceRecordType,
+    TLInstancePresence,
+    atom,
+    createPresenceStateDerivation,
+    react,
+} from "@tldraw/tldraw";
+import throttle from "lodash/throttle";
+
+// Someone connected to the room. `id` is their socket id, so two tabs of the
+// same browser show up as two participants.
+export interface Participant {
+    id: string;
+    name: string;
+    color: string;
+}
+
+export type LocalUser = Omit<Participant, "id">;
+
+const USER_STORAGE_KEY = "beza-user";
+const PRESENCE_THROTTLE_MS = 50;
+
+export const PARTICIPANT_COLORS = [
+    "#4f46e5",
+    "#d946ef",
+    "#0ea5e9",
+    "#10b981",
+    "#f59e0b",
+    "#ef4444",
+    "#8b5cf6",
+    "#14b8a6",
+];
+
+const randomItem = <T>(items: T[]): T => items[Math.floor(Math.random() * items.length)];
+
+// Name and color are kept per browser so they survive reloads
+export function getLocalUser(): LocalUser {
+    try {
+        const saved = localStorage.getItem(USER_STORAGE_KEY);
+        if (saved) return JSON.parse(saved) as LocalUser;
+    } catch {
+        /* fall through to a new user */
+    }
+    const user: LocalUser = {
+        name: `Guest ${Math.floor(1000 + Math.random() * 9000)}`,
+        color: randomItem(PARTICIPANT_COLORS),
+    };
+    saveLocalUser(user);
+    return user;
+}
+
+export function saveLocalUser(user: LocalUser): void {
+    try {
+        localStorage.setItem(USER_STORAGE_KEY, JSON.stringify(user));
+    } catch (err) {
+        console.error("Failed to save user:", err);
+    }
+}
+
+export const getInitials = (name: string): string =>
+    name
+        .split(/\s+/)
+        .filter(Boolean)
+        .slice(0, 2)
+        .map((part) => part[0]?.toUpperCase())
+        .join("") || "?";
+
+export interface PresenceListener {
+    setUser: (user: LocalUser) => void;
+    stop: () => void;
+}
+
+// Send our cursor, selection and camera whenever they change, throttled
+export function listenToPresence(
+    editor: Editor,
+    participant: Participant,
+    send: (presence: TLInstancePresence) => void
+): PresenceListener {
+    const participant$ = atom("participant", participant);
+    const presence$ = createPresenceStateDerivation(
+        participant$,
+        InstancePresenceRecordType.createId(participant.id)
+    )(editor.store);
+    const sendThrottled = throttle(send, PRESENCE_THROTTLE_MS);
+    const stop = react("send presence", () => {
+        const presence = presence$.get();
+        if (presence) sendThrottled(presence);
+    });
+    return {
+        setUser: (user) => participant$.set({ ...participant$.get(), ...user }),
+        stop: () => {
+            stop();
+            sendThrottled.cancel();
+        },
+    };
+}
+
+// Remote presence lives in the store as instance_presence records, which tldraw
+// renders as collaborator cursors and selection outlines.
+export function applyRemotePresence(editor: Editor, presence: TLInstancePresence): void {
+    editor.store.mergeRemoteChanges(() => {
+        // Our clock, not theirs, decides when a cursor goes idle
+        editor.store.put([{ ...presence, lastActivityTimestamp: Date.now() }]);
+    });
+}
+
+export function removeRemotePresence(editor: Editor, participantId?: string): void {
+    const ids = participantId
+        ? [InstancePresenceRecordType.createId(participantId)]
+        : editor.store.query.ids("instance_presence").get();
+    editor.store.mergeRemoteChanges(() => {
+        editor.store.remove([...ids].filter((id) => editor.store.has(id)));
+    });
+}
@@ -0,0 +1,160 @@
+import { randomUUID } from "crypto";
+import { ApiError } from "@/lib/api-errors";
+import { toApiError, upstreamError } from "@/lib/api-response";
+import { daydreamAuthHeaders, daydreamUrl } from "@/lib/daydream-api";
+import type { GenerationParams } from "@/lib/generation-params";
+import type { PromptJob, PromptJobStatus } from "@/lib/types";
+
+// Prompt jobs live in memory for the lifetime of the server process. Routes
+// are bundled separately, so the registry hangs off globalThis to be shared.
+
+type JobListener = (job: PromptJob) => void;
+
+interface JobEntry {
+    job: PromptJob;
+    listeners: Set<JobListener>;
+    controller: AbortController;
+}
+
+const POLL_INTERVAL = 3_000;
+// Long enough for slow pipelines; the client can always cancel sooner
+const JOB_TIMEOUT = Number(process.env.PROMPT_JOB_TIMEOUT_MS ?? 10 * 60_000);
+// Finished jobs stick around briefly so late subscribers still get the result
+const FINISHED_JOB_TTL = 5 * 60_000;
+
+const globalJobs = globalThis as typeof globalThis & { __promptJobs?: Map<string, JobEntry> };
+const jobs = (globalJobs.__promptJobs ??= new Map<string, JobEntry>());
+
+const FINISHED: PromptJobStatus[] = ["succeeded", "failed", "cancelled"];
+
+export const isJobFinished = (job: PromptJob): boolean => FINISHED.includes(job.status);
+
+const upstreamUrl = (path: string) => daydreamUrl(`/beta${path}`);
+
+function update(entry: JobEntry, changes: Partial<PromptJob>): void {
+    if (isJobFinished(entry.job)) return;
+    entry.job = { ...entry.job, ...changes, updated_at: new Date().toISOString() };
+    entry.listeners.forEach((listener) => listener(entry.job));
+    if (isJobFinished(entry.job)) {
+        entry.listeners.clear();
+        setTimeout(() => jobs.delete(entry.job.id), FINISHED_JOB_TTL);
+    }
+}
+
+// Resolves early when the job is cancelled; the listener goes with the timer so polls do not pile them up
+const sleep = (ms: number, signal: AbortSignal) =>
+    new Promise<void>((resolve) => {
+        const onAbort = () => {
+            clearTimeout(timer);
+            resolve();
+        };
+        const timer = setTimeout(() => {
+            signal.removeEventListener("abort", onAbort);
+            resolve();
+        }, ms);
+        signal.addEventListener("abort", onAbort, { once: true });
+    });
+
+async function run(entry: JobEntry, prompt: string, params: GenerationParams): Promise<void> {
+    const { signal } = entry.controller;
+    const { stream_id } = entry.job;
+    const deadline = Date.now() + JOB_TIMEOUT;
+
+    const response = await fetch(upstreamUrl(`/streams/${stream_id}/prompts`), {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...daydreamAuthHeaders() },
+        body: JSON.stringify({
+            pipeline: "live-video-to-video",
+            params: {
+                guidance_scale: 7.5,
+                num_inference_steps: 50,
+                ...params,
+                prompt,
+            },
+        }),
+        signal,
+    });
+    if (!response.ok) throw await upstreamError(response, { badInputCode: "bad_prompt" });
+
+    let data = (await response.json()) as Record<string, unknown>;
+    const promptId = typeof data.id === "string" ? data.id : null;
+    update(entry, { status: "processing", prompt_id: promptId });
+
+    // Without an id there is nothing to poll; take the first answer as final
+    while (promptId && data.status !== "succeeded") {
+        if (data.status === "failed") throw new ApiError("upstream_error", "Prompt failed to process");
+        update(entry, {
+            upstream_status: typeof data.status === "string" ? data.status : null,
+        });
+        if (Date.now() > deadline) throw new ApiError("timeout", "Prompt job timed out");
+
+        await sleep(POLL_INTERVAL, signal);
+        if (signal.aborted) return;
+
+        const check = await fetch(upstreamUrl(`/streams/${stream_id}/prompts/${promptId}`), {
+            method: "GET",
+            headers: daydreamAuthHeaders(),
+            signal,
+        });
+        if (!check.ok) throw await upstreamError(check);
+        data = (await check.json()) as Record<string, unknown>;
+    }
+
+    update(entry, { status: "succeeded", upstream_status: "succeeded", result: data });
+}
+
+// Submit the prompt in the background and return the job straight away
+export function startPromptJob(
+    stream_id: string,
+    prompt: string,
+    params: GenerationParams = {}
+): PromptJob {
+    const now = new Date().toISOString();
+    const entry: JobEntry = {
+        job: {
+            id: randomUUID(),
+            stream_id,
+            prompt_id: null,
+            status: "pending",
+            upstream_status: null,
+            result: null,
+            error: null,
+            created_at: now,
+            updated_at: now,
+        },
+        listeners: new Set(),
+        controller: new AbortController(),
+    };
+    jobs.set(entry.job.id, entry);
+
+    run(entry, prompt, params).catch((error: unknown) => {
+        if (entry.controller.signal.aborted) return;
+        update(entry, { status: "failed", error: toApiError(error).toJSON() });
+    });
+
+    return entry.job;
+}
+
+export function getPromptJob(id: string): PromptJob | null {
+    return jobs.get(id)?.job ?? null;
+}
+
+// Stops polling. Daydream has no way to withdraw a prompt that was already
+// submitted, so this only means the result will be ignored.
+export function cancelPromptJob(id: string): PromptJob | null {
+    const entry = jobs.get(id);
+    if (!entry) return null;
+    if (!isJobFinished(entry.job)) {
+        update(entry, { status: "cancelled" });
+        entry.controller.abort();
+    }
+    return entry.job;
+}
+
+// Listen for updates until the job finishes; returns an unsubscribe function
+export function subscribeToPromptJob(id: string, listener: JobListener): () => void {
+    const entry = jobs.get(id);
+    if (!entry || isJobFinished(entry.job)) return () => { };
+    entry.listeners.add(listener);
+    return () => entry.listeners.delete(listener);
+}
@@ -0,0 +1,117 @@
+import type { Editor } from "@tldraw/tldraw";
+import { readDocumentMeta, writeDocumentMeta } from "@/lib/board-settings";
+import { generationParamsSchema, type GenerationParams } from "@/lib/generation-params";
+import { array, number, object, optional, safeParse, string } from "@/lib/schema";
+
+// Named prompt templates with default generation params. Each user keeps their
+// own in localStorage; a board can also carry shared ones in its document meta.
+
+export interface PromptPreset {
+    id: string;
+    name: string;
+    // May contain {variables}, e.g. "{subject} as a watercolor painting"
+    template: string;
+    params: GenerationParams;
+}
+
+export type PresetScope = "user" | "board";
+
+const USER_PRESETS_KEY = "beza-prompt-presets";
+export const BOARD_PRESETS_KEY = "promptPresets";
+const PRESET_FILE_VERSION = 1;
+
+export const MAX_PRESET_NAME_LENGTH = 60;
+export const MAX_TEMPLATE_LENGTH = 1_000;
+
+const presetShape = {
+    name: string({ min: 1, max: MAX_PRESET_NAME_LENGTH }),
+    template: string({ min: 1, max: MAX_TEMPLATE_LENGTH }),
+    params: generationParamsSchema,
+};
+
+// Ids are not part of the file; imported presets always get fresh ones
+const presetFileSchema = object({
+    version: optional(number({ min: 1, max: PRESET_FILE_VERSION, integer: true })),
+    presets: array(object({ ...presetShape, id: optional(string()) })),
+});
+
+// Saved presets are checked like imported ones: localStorage and board meta may
+// hold presets from an older version, or anything a collaborator wrote
+const savedPresetSchema = object({ ...presetShape, id: string({ min: 1 }) });
+
+// Presets that do not check out are dropped rather than failing the whole list
+const validPresets = (value: unknown): PromptPreset[] =>
+    Array.isArray(value)
+        ? value.flatMap((preset) => {
+              const parsed = safeParse(savedPresetSchema, preset);
+              return parsed.ok ? [parsed.value] : [];
+          })
+        : [];
+
+const VARIABLE_PATTERN = /\{(\w+)\}/g;
+
+// Variable names in order of first use
+export const getTemplateVariables = (template: string): string[] =>
+    [...new Set(Array.from(template.matchAll(VARIABLE_PATTERN), (match) => match[1]))];
+
+// Unfilled variables are left as they are so the gap is visible in the prompt
+export const fillTemplate = (template: string, values: Record<string, string>): string =>
+    template.replace(VARIABLE_PATTERN, (match, name: string) => values[name]?.trim() || match);
+
+export const createPreset = (preset: Omit<PromptPreset, "id">): PromptPreset => ({
+    ...preset,
+    id: crypto.randomUUID(),
+});
+
+export function loadUserPresets(): PromptPreset[] {
+    try {
+        const saved = localStorage.getItem(USER_PRESETS_KEY);
+        if (saved) return validPresets(JSON.parse(saved));
+    } catch {
+        /* fall through to no presets */
+    }
+    return [];
+}
+
+export function saveUserPresets(presets: PromptPreset[]): void {
+    try {
+        localStorage.setItem(USER_PRESETS_KEY, JSON.stringify(presets));
+    } catch (err) {
+        console.error("Failed to save prompt presets:", err);
+    }
+}
+
+export function getBoardPresets(editor: Editor): PromptPreset[] {
+    return validPresets(readDocumentMeta(editor, BOARD_PRESETS_KEY));
+}
+
+export function setBoardPresets(editor: Editor, presets: PromptPreset[]): void {
+    writeDocumentMeta(editor, BOARD_PRESETS_KEY, presets);
+}
+
+export const exportPresets = (presets: PromptPreset[]): string =>
+    JSON.stringify(
+        {
+            version: PRESET_FILE_VERSION,
+            presets: presets.map(({ name, template, params }) => ({ name, template, params })),
+        },
+        null,
+        2
+    );
+
+export type ParsedPresetFile = { ok: true; presets: PromptPreset[] } | { ok: false; error: string };
+
+export function parsePresetFile(text: string): ParsedPresetFile {
+    let json: unknown;
+    try {
+        json = JSON.parse(text);
+    } catch {
+        return { ok: false, error: "Not a JSON file" };
+    }
+    const parsed = safeParse(presetFileSchema, json);
+    if (!parsed.ok) return parsed;
+    return {
+        ok: true,
+        presets: parsed.value.presets.map(({ name, template, params }) => createPreset({ name, template, params })),
+    };
+}
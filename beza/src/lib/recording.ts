@@ -0,0 +1,90 @@
+import { AssetRecordType, createShapeId, type Editor, type TLShapeId, type TLVideoShape } from "@tldraw/tldraw";
+
+// Records a MediaStream to WebM with MediaRecorder, and puts finished
+// recordings on the board as tldraw video shapes.
+
+// Best first; browsers differ in which codecs they can record
+const WEBM_TYPES = ["video/webm;codecs=vp9,opus", "video/webm;codecs=vp8,opus", "video/webm"];
+
+const RECORDING_SLICE_MS = 1_000;
+
+export const isRecordingSupported = (): boolean =>
+    typeof window !== "undefined" && "MediaRecorder" in window && WEBM_TYPES.some((type) => MediaRecorder.isTypeSupported(type));
+
+export class StreamRecorder {
+    readonly startedAt = Date.now();
+    private readonly recorder: MediaRecorder;
+    private readonly chunks: Blob[] = [];
+    private readonly finished: Promise<Blob>;
+
+    // `onError` is told when recording fails while it runs; stop() still rejects with the error
+    constructor(
+        private readonly stream: MediaStream,
+        onError?: (err: Error) => void
+    ) {
+        const mimeType = WEBM_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+        if (!mimeType) throw new Error("Recording to WebM is not supported in this browser");
+        this.recorder = new MediaRecorder(stream, { mimeType });
+        this.finished = new Promise((resolve, reject) => {
+            this.recorder.ondataavailable = (e) => e.data.size > 0 && this.chunks.push(e.data);
+            this.recorder.onstop = () => resolve(new Blob(this.chunks, { type: "video/webm" }));
+            this.recorder.onerror = (e) => {
+                const detail = (e as Event & { error?: DOMException }).error?.message;
+                const err = new Error(detail ? `Recording failed: ${detail}` : "Recording failed");
+                reject(err);
+                onError?.(err);
+            };
+        });
+        // Nobody waits on the recording until stop(), which gets the rejection itself
+        this.finished.catch(() => {});
+        // Collect in slices so a long recording is not one huge buffer at the end
+        this.recorder.start(RECORDING_SLICE_MS);
+    }
+
+    get videoSize(): { w: number; h: number } {
+        const settings = this.stream.getVideoTracks()[0]?.getSettings();
+        return { w: settings?.width ?? 512, h: settings?.height ?? 512 };
+    }
+
+    // Resolves with the whole recording
+    stop(): Promise<Blob> {
+        if (this.recorder.state !== "inactive") this.recorder.stop();
+        return this.finished;
+    }
+}
+
+export const recordingFilename = (startedAt: number): string =>
+    `recording-${new Date(startedAt).toISOString().replace(/[:.]/g, "-")}.webm`;
+
+const RECORDING_WIDTH = 320;
+
+// Place a recording in the middle of the viewport as a playable video
+export function insertRecording(
+    editor: Editor,
+    src: string,
+    size: { w: number; h: number },
+    name: string
+): TLShapeId {
+    const w = RECORDING_WIDTH;
+    const h = size.w ? (size.h / size.w) * w : w;
+    const asset = AssetRecordType.create({
+        id: AssetRecordType.createId(),
+        type: "video",
+        props: { name, src, w: size.w, h: size.h, mimeType: "video/webm", isAnimated: true },
+    });
+    const center = editor.getViewportPageBounds().center;
+    const id = createShapeId();
+    editor.run(() => {
+        editor.createAssets([asset]);
+        editor.createShape<TLVideoShape>({
+            id,
+            type: "video",
+            x: center.x - w / 2,
+            y: center.y - h / 2,
+            props: { assetId: asset.id, w, h },
+            meta: { name, hidden: false },
+        });
+        editor.select(id);
+    });
+    return id;
+}
@@ -0,0 +1,131 @@
+// Edit and view tokens for rooms. Plain JS so both the Next.js routes and the
+// Socket.IO server (server.js) can use it.
+import { randomBytes, randomUUID, timingSafeEqual } from "crypto";
+import { link, mkdir, readFile, rename, rm, writeFile } from "fs/promises";
+import path from "path";
+
+const ACCESS_DATA_DIR = process.env.ACCESS_DATA_DIR ?? path.join(process.cwd(), ".data", "access");
+
+/** @typedef {"edit" | "view"} RoomRole */
+/** @typedef {{ editToken: string; viewToken: string }} RoomAccess */
+
+const ROOM_ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+
+/**
+ * Room ids end up in file names, so only allow a safe set of characters.
+ * @param {unknown} roomId
+ * @returns {roomId is string}
+ */
+export const isValidRoomId = (roomId) => typeof roomId === "string" && ROOM_ID_PATTERN.test(roomId);
+
+const accessPath = (roomId) => path.join(ACCESS_DATA_DIR, `${roomId}.json`);
+
+const mintToken = () => randomBytes(18).toString("base64url");
+
+/**
+ * @param {string} roomId
+ * @returns {Promise<RoomAccess | null>}
+ */
+export async function getRoomAccess(roomId) {
+  try {
+    return JSON.parse(await readFile(accessPath(roomId), "utf8"));
+  } catch (err) {
+    if (err.code === "ENOENT") return null;
+    throw err;
+  }
+}
+
+/**
+ * @param {string} roomId
+ * @param {RoomAccess} access
+ */
+async function writeRoomAccess(roomId, access) {
+  await mkdir(ACCESS_DATA_DIR, { recursive: true });
+  const target = accessPath(roomId);
+  const temp = `${target}.${randomUUID()}.tmp`;
+  await writeFile(temp, JSON.stringify(access), "utf8");
+  await rename(temp, target);
+}
+
+/**
+ * Mints the tokens of a room that has none: a new one from POST /api/boards,
+ * or one saved before share links existed, claimed by the first editor to open
+ * it again. A room exists once it has tokens, so nobody can claim one that is
+ * already in use. Returns null when the room already has tokens.
+ * @param {string} roomId
+ * @returns {Promise<RoomAccess | null>}
+ */
+export async function createRoomAccess(roomId) {
+  const access = { editToken: mintToken(), viewToken: mintToken() };
+  await mkdir(ACCESS_DATA_DIR, { recursive: true });
+  const target = accessPath(roomId);
+  const temp = `${target}.${randomUUID()}.tmp`;
+  await writeFile(temp, JSON.stringify(access), "utf8");
+  try {
+    // Unlike rename, link fails when the room has tokens, so two claims cannot both win
+    await link(temp, target);
+    return access;
+  } catch (err) {
+    if (err.code === "EEXIST") return null;
+    throw err;
+  } finally {
+    await rm(temp, { force: true });
+  }
+}
+
+// Token changes of a room run one at a time, so revoking both links at once
+// cannot write back a token the other revocation just replaced
+const accessLocks = new Map();
+
+/**
+ * @template T
+ * @param {string} roomId
+ * @param {() => Promise<T>} run
+ * @returns {Promise<T>}
+ */
+function withAccessLock(roomId, run) {
+  const result = (accessLocks.get(roomId) ?? Promise.resolve()).catch(() => {}).then(run);
+  accessLocks.set(roomId, result);
+  // Forget the room once nothing is queued behind this change
+  const release = () => {
+    if (accessLocks.get(roomId) === result) accessLocks.delete(roomId);
+  };
+  result.then(release, release);
+  return result;
+}
+
+/**
+ * Replaces one token, which revokes every link that used the old one.
+ * @param {string} roomId
+ * @param {RoomRole} role
+ * @returns {Promise<RoomAccess>}
+ */
+export function rotateRoomToken(roomId, role) {
+  return withAccessLock(roomId, async () => {
+    const access = await getRoomAccess(roomId);
+    if (!access) throw new Error(`Room ${roomId} has no tokens`);
+    const next = { ...access, [role === "edit" ? "editToken" : "viewToken"]: mintToken() };
+    await writeRoomAccess(roomId, next);
+    return next;
+  });
+}
+
+// Constant-time, so a token cannot be guessed from how long the check takes
+const sameToken = (token, expected) => {
+  const a = Buffer.from(token);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+};
+
+/**
+ * The role a token grants in a room; null for a wrong or revoked token.
+ * @param {RoomAccess} access
+ * @param {string | null | undefined} token
+ * @returns {RoomRole | null}
+ */
+export function roleForToken(access, token) {
+  if (typeof token !== "string" || !token) return null;
+  if (sameToken(token, access.editToken)) return "edit";
+  if (sameToken(token, access.viewToken)) return "view";
+  return null;
+}
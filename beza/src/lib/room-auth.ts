@@ -0,0 +1,21 @@
+import { ApiError } from "@/lib/api-errors";
+import { BOARD_TOKEN_HEADER } from "@/lib/boards";
+import { getRoomAccess, roleForToken } from "@/lib/room-access";
+
+// Access check shared by the /api/boards/[roomId] routes. A room exists once
+// POST /api/boards has minted its tokens; any other room id is not found.
+
+export async function requireRoomRole(req: Request, roomId: string, needed: "edit" | "view"): Promise<"edit" | "view"> {
+    const access = await getRoomAccess(roomId);
+    if (!access) {
+        throw new ApiError("not_found", "Board not found");
+    }
+    const role = roleForToken(access, req.headers.get(BOARD_TOKEN_HEADER));
+    if (!role) {
+        throw new ApiError("forbidden", "Invalid or revoked link");
+    }
+    if (needed === "edit" && role !== "edit") {
+        throw new ApiError("forbidden", "This link can only view the board");
+    }
+    return role;
+}
@@ -0,0 +1,148 @@
+// Small runtime validators for API payloads. A schema is a function that
+// returns the typed value or throws a ValidationError naming the bad field.
+// Shared by the routes and the client, so keep this free of Node imports.
+
+export class ValidationError extends Error {
+    constructor(
+        readonly path: string,
+        message: string
+    ) {
+        super(path ? `${path}: ${message}` : message);
+        this.name = "ValidationError";
+    }
+}
+
+export type Schema<T> = (value: unknown, path?: string) => T;
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+export const string =
+    ({ min = 0, max = Infinity }: { min?: number; max?: number } = {}): Schema<string> =>
+    (value, path = "") => {
+        if (typeof value !== "string") throw new ValidationError(path, "must be a string");
+        if (value.trim().length < min) {
+            throw new ValidationError(path, min === 1 ? "is required" : `must be at least ${min} characters`);
+        }
+        if (value.length > max) throw new ValidationError(path, `must be at most ${max} characters`);
+        return value;
+    };
+
+export const number =
+    ({ min = -Infinity, max = Infinity, integer = false }: { min?: number; max?: number; integer?: boolean } = {}): Schema<number> =>
+    (value, path = "") => {
+        if (typeof value !== "number" || !Number.isFinite(value)) {
+            throw new ValidationError(path, "must be a number");
+        }
+        if (integer && !Number.isInteger(value)) throw new ValidationError(path, "must be a whole number");
+        if (value < min || value > max) throw new ValidationError(path, `must be between ${min} and ${max}`);
+        return value;
+    };
+
+export const oneOf =
+    <const T extends readonly string[]>(options: T): Schema<T[number]> =>
+    (value, path = "") => {
+        if (!options.includes(value as string)) {
+            throw new ValidationError(path, `must be one of ${options.join(", ")}`);
+        }
+        return value as T[number];
+    };
+
+export const boolean =
+    (): Schema<boolean> =>
+    (value, path = "") => {
+        if (typeof value !== "boolean") throw new ValidationError(path, "must be true or false");
+        return value;
+    };
+
+export const nullable =
+    <T>(schema: Schema<T>): Schema<T | null> =>
+    (value, path) =>
+        value === null ? null : schema(value, path);
+
+// null counts as missing, since JSON has no undefined
+export const optional =
+    <T>(schema: Schema<T>): Schema<T | undefined> =>
+    (value, path) =>
+        value === undefined || value === null ? undefined : schema(value, path);
+
+export const array =
+    <T>(item: Schema<T>, { min = 0 }: { min?: number } = {}): Schema<T[]> =>
+    (value, path = "") => {
+        if (!Array.isArray(value)) throw new ValidationError(path, "must be an array");
+        if (value.length < min) throw new ValidationError(path, `must have at least ${min} item(s)`);
+        return value.map((entry, i) => item(entry, `${path}[${i}]`));
+    };
+
+export const tuple =
+    <T extends unknown[]>(...items: { [K in keyof T]: Schema<T[K]> }): Schema<T> =>
+    (value, path = "") => {
+        if (!Array.isArray(value) || value.length !== items.length) {
+            throw new ValidationError(path, `must be a list of ${items.length} items`);
+        }
+        return items.map((item, i) => item(value[i], `${path}[${i}]`)) as T;
+    };
+
+// The first schema that accepts the value wins; otherwise the last error is reported
+export const union =
+    <T>(...schemas: Schema<T>[]): Schema<T> =>
+    (value, path = "") => {
+        let lastError: unknown = null;
+        for (const schema of schemas) {
+            try {
+                return schema(value, path);
+            } catch (err) {
+                if (!(err instanceof ValidationError)) throw err;
+                lastError = err;
+            }
+        }
+        throw lastError ?? new ValidationError(path, "is not valid");
+    };
+
+type Shape = Record<string, Schema<unknown>>;
+// Fields whose schema allows undefined may be left out
+type OptionalKeys<S extends Shape> = { [K in keyof S]: undefined extends Infer<S[K]> ? K : never }[keyof S];
+type ObjectOf<S extends Shape> = { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> } & {
+    [K in OptionalKeys<S>]?: Infer<S[K]>;
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === "object" && value !== null && !Array.isArray(value);
+
+const fieldPath = (path: string, key: string) => (path ? `${path}.${key}` : key);
+
+// Requests: unknown fields are rejected so typos do not pass silently
+export const object =
+    <S extends Shape>(shape: S): Schema<ObjectOf<S>> =>
+    (value, path = "") => {
+        if (!isPlainObject(value)) throw new ValidationError(path, "must be an object");
+        const unknownKey = Object.keys(value).find((key) => !(key in shape));
+        if (unknownKey) throw new ValidationError(fieldPath(path, unknownKey), "is not a known field");
+        return parseShape(shape, value, path);
+    };
+
+// Responses: extra fields from upstream are kept as they are
+export const looseObject =
+    <S extends Shape>(shape: S): Schema<ObjectOf<S> & Record<string, unknown>> =>
+    (value, path = "") => {
+        if (!isPlainObject(value)) throw new ValidationError(path, "must be an object");
+        return { ...value, ...parseShape(shape, value, path) };
+    };
+
+function parseShape<S extends Shape>(shape: S, value: Record<string, unknown>, path: string): ObjectOf<S> {
+    const result: Record<string, unknown> = {};
+    for (const [key, schema] of Object.entries(shape)) {
+        const parsed = schema(value[key], fieldPath(path, key));
+        if (parsed !== undefined) result[key] = parsed;
+    }
+    return result as ObjectOf<S>;
+}
+
+export type ParseResult<T> = { ok: true; value: T } | { ok: false; error: string };
+
+export function safeParse<T>(schema: Schema<T>, value: unknown): ParseResult<T> {
+    try {
+        return { ok: true, value: schema(value) };
+    } catch (err) {
+        if (err instanceof ValidationError) return { ok: false, error: err.message };
+        throw err;
+    }
+}
@@ -0,0 +1,151 @@
+// Mixes the webcam and the board into one outgoing video track, e.g. the
+// webcam as picture-in-picture over the canvas. The result feeds both the
+// Daydream push and local recording.
+
+export type CompositeLayout = "none" | "camera-over-board" | "board-over-camera" | "side-by-side";
+export type InsetCorner = "top-left" | "top-right" | "bottom-left" | "bottom-right";
+
+export interface CompositeOptions {
+    layout: CompositeLayout;
+    // Width of the picture-in-picture inset as a fraction of the output width
+    insetScale: number;
+    insetCorner: InsetCorner;
+}
+
+export const DEFAULT_COMPOSITE_OPTIONS: CompositeOptions = {
+    layout: "none",
+    insetScale: 0.3,
+    insetCorner: "bottom-right",
+};
+
+export const INSET_SCALE_LIMITS = { min: 0.15, max: 0.5 };
+
+export interface StreamCompositorOptions {
+    width?: number;
+    height?: number;
+    frameRate?: number;
+}
+
+type Rect = { x: number; y: number; w: number; h: number };
+type Source = { image: CanvasImageSource; w: number; h: number };
+
+const DEFAULT_SIZE = 512;
+const DEFAULT_FRAME_RATE = 15;
+const INSET_MARGIN = 12;
+
+// Largest rect with the source's aspect ratio that fits in `box`, centred
+function fit(source: Source, box: Rect): Rect {
+    const scale = Math.min(box.w / source.w, box.h / source.h);
+    const w = source.w * scale;
+    const h = source.h * scale;
+    return { x: box.x + (box.w - w) / 2, y: box.y + (box.h - h) / 2, w, h };
+}
+
+export class StreamCompositor {
+    readonly stream: MediaStream;
+    private readonly canvas: HTMLCanvasElement;
+    private readonly ctx: CanvasRenderingContext2D;
+    private readonly video: HTMLVideoElement;
+    private readonly timer: ReturnType<typeof setInterval>;
+    private camera: MediaStream | null = null;
+
+    constructor(
+        private readonly board: HTMLCanvasElement,
+        camera: MediaStream | null,
+        private options: CompositeOptions,
+        { width = DEFAULT_SIZE, height = DEFAULT_SIZE, frameRate = DEFAULT_FRAME_RATE }: StreamCompositorOptions = {}
+    ) {
+        this.canvas = document.createElement("canvas");
+        this.canvas.width = width;
+        this.canvas.height = height;
+        const ctx = this.canvas.getContext("2d");
+        if (!ctx) throw new Error("Stream compositing is not supported in this browser");
+        this.ctx = ctx;
+        this.video = document.createElement("video");
+        this.video.muted = true;
+        this.video.playsInline = true;
+        this.stream = new MediaStream(this.canvas.captureStream(frameRate).getVideoTracks());
+        this.setCamera(camera);
+        this.timer = setInterval(() => this.draw(), 1000 / frameRate);
+    }
+
+    // The webcam's audio goes out with the mixed video
+    setCamera(camera: MediaStream | null): void {
+        if (camera === this.camera) return;
+        this.camera = camera;
+        this.stream.getAudioTracks().forEach((track) => this.stream.removeTrack(track));
+        camera?.getAudioTracks().forEach((track) => this.stream.addTrack(track));
+        this.video.srcObject = camera;
+        if (camera) this.video.play().catch(() => { });
+    }
+
+    setOptions(options: CompositeOptions): void {
+        this.options = options;
+    }
+
+    // Leaves the camera's tracks alone; FloatingCam owns them
+    stop(): void {
+        clearInterval(this.timer);
+        this.stream.getVideoTracks().forEach((track) => track.stop());
+        this.video.srcObject = null;
+    }
+
+    private cameraSource(): Source | null {
+        const { videoWidth, videoHeight } = this.video;
+        if (!this.camera || !videoWidth || !videoHeight) return null;
+        return { image: this.video, w: videoWidth, h: videoHeight };
+    }
+
+    private insetRect(source: Source): Rect {
+        const { width, height } = this.canvas;
+        const w = width * this.options.insetScale;
+        const h = (w * source.h) / source.w;
+        const corner = this.options.insetCorner;
+        return {
+            x: corner.endsWith("left") ? INSET_MARGIN : width - w - INSET_MARGIN,
+            y: corner.startsWith("top") ? INSET_MARGIN : height - h - INSET_MARGIN,
+            w,
+            h,
+        };
+    }
+
+    private drawInto(source: Source | null, rect: Rect): void {
+        if (!source) return;
+        const { x, y, w, h } = fit(source, rect);
+        this.ctx.drawImage(source.image, x, y, w, h);
+    }
+
+    private draw(): void {
+        const { width, height } = this.canvas;
+        const full: Rect = { x: 0, y: 0, w: width, h: height };
+        const board: Source = { image: this.board, w: this.board.width, h: this.board.height };
+        const camera = this.cameraSource();
+
+        this.ctx.fillStyle = "#000000";
+        this.ctx.fillRect(0, 0, width, height);
+        switch (this.options.layout) {
+            case "camera-over-board":
+                this.drawInto(board, full);
+                if (camera) this.drawInset(camera);
+                break;
+            case "board-over-camera":
+                this.drawInto(camera, full);
+                this.drawInset(board);
+                break;
+            case "side-by-side":
+                this.drawInto(board, { x: 0, y: 0, w: width / 2, h: height });
+                this.drawInto(camera, { x: width / 2, y: 0, w: width / 2, h: height });
+                break;
+            default:
+                this.drawInto(board, full);
+        }
+    }
+
+    private drawInset(source: Source): void {
+        const rect = this.insetRect(source);
+        this.ctx.drawImage(source.image, rect.x, rect.y, rect.w, rect.h);
+        this.ctx.strokeStyle = "#ffffff";
+        this.ctx.lineWidth = 2;
+        this.ctx.strokeRect(rect.x, rect.y, rect.w, rect.h);
+    }
+}
@@ -0,0 +1,111 @@
+import { Editor, RecordsDiff, TLRecord } from "@tldraw/tldraw";
+
+// Wire format for tldraw store diffs sent through the Socket.IO room.
+// Updates carry the full "to" record so every client can apply them as puts.
+export interface SerializedDiff {
+    added: TLRecord[];
+    updated: TLRecord[];
+    removed: TLRecord["id"][];
+}
+
+// Sent by the client for every local change.
+export interface OutgoingDiff {
+    seq: number;
+    diff: SerializedDiff;
+}
+
+// Broadcast by the server, in the order it applied the diffs.
+export interface RoomDiff extends OutgoingDiff {
+    clock: number;
+    origin: string;
+}
+
+// Current document of a room, sent to every socket when it joins.
+export interface RoomDocument {
+    clock: number;
+    records: TLRecord[];
+}
+
+export const serializeDiff = (diff: RecordsDiff<TLRecord>): SerializedDiff => ({
+    added: Object.values(diff.added),
+    updated: Object.values(diff.updated).map(([, to]) => to),
+    removed: Object.keys(diff.removed) as TLRecord["id"][],
+});
+
+export const isEmptyDiff = (diff: SerializedDiff): boolean =>
+    diff.added.length === 0 && diff.updated.length === 0 && diff.removed.length === 0;
+
+export const getDiffRecordIds = (diff: SerializedDiff): TLRecord["id"][] => [
+    ...diff.added.map((r) => r.id),
+    ...diff.updated.map((r) => r.id),
+    ...diff.removed,
+];
+
+// Drop every record the predicate rejects, keeping the shape of the diff.
+export const filterDiff = (
+    diff: SerializedDiff,
+    keep: (id: TLRecord["id"]) => boolean
+): SerializedDiff => ({
+    added: diff.added.filter((r) => keep(r.id)),
+    updated: diff.updated.filter((r) => keep(r.id)),
+    removed: diff.removed.filter(keep),
+});
+
+export const getDocumentRecords = (editor: Editor): TLRecord[] =>
+    Object.values(editor.store.serialize("document"));
+
+// Apply a diff from another client. Changes are merged as "remote" so they are
+// not picked up by the local listener and sent back to the room.
+export function applyRemoteDiff(editor: Editor, diff: SerializedDiff): void {
+    editor.store.mergeRemoteChanges(() => {
+        const puts = [...diff.added, ...diff.updated];
+        if (puts.length) editor.store.put(puts);
+        const removed = diff.removed.filter((id) => editor.store.has(id));
+        if (removed.length) editor.store.remove(removed);
+    });
+}
+
+// Replace the local document with the room's document.
+export function applyRoomDocument(editor: Editor, doc: RoomDocument): void {
+    const incoming = new Set(doc.records.map((r) => r.id));
+    const stale = getDocumentRecords(editor)
+        .map((r) => r.id)
+        .filter((id) => !incoming.has(id));
+    applyRemoteDiff(editor, { added: doc.records, updated: [], removed: stale });
+}
+
+/**
+ * Tracks local diffs the server has not acknowledged yet.
+ *
+ * The server broadcasts diffs back to the whole room in the order it applied
+ * them, so a remote change that arrives while we still have a pending change to
+ * the same record was ordered before ours and would be overwritten by it anyway.
+ * Skipping it keeps shapes from jumping back while they are being dragged.
+ */
+export class PendingChanges {
+    private seq = 0;
+    private counts = new Map<TLRecord["id"], number>();
+
+    track(diff: SerializedDiff): number {
+        for (const id of getDiffRecordIds(diff)) {
+            this.counts.set(id, (this.counts.get(id) ?? 0) + 1);
+        }
+        return ++this.seq;
+    }
+
+    acknowledge(diff: SerializedDiff): void {
+        for (const id of getDiffRecordIds(diff)) {
+            const count = (this.counts.get(id) ?? 0) - 1;
+            if (count > 0) this.counts.set(id, count);
+            else this.counts.delete(id);
+        }
+    }
+
+    has(id: TLRecord["id"]): boolean {
+        return this.counts.has(id);
+    }
+
+    reset(): void {
+        this.counts.clear();
+    }
+}
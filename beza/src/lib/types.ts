@@ -1,9 +1,12 @@
 import { TLEditorSnapshot } from "@tldraw/tldraw";
+import type { ApiErrorInfo } from "@/lib/api-errors";
 
 export interface PageData {
   id: string;
   name: string;
   canvasData: TLEditorSnapshot | null;
+  // Small PNG data URL shown in the page strip
+  thumbnail?: string;
 }
 
 export interface Layer {
@@ -44,4 +47,33 @@ export interface DaydreamOneShotResponse {
 export interface DaydreamOneShotOutput {
   url: string;
   [key: string]: unknown;
-}
\ No newline at end of file
+}
+// Prompt jobs run on the server; the client follows them over SSE
+export type PromptJobStatus = "pending" | "processing" | "succeeded" | "failed" | "cancelled";
+
+export interface PromptJob {
+  id: string;
+  stream_id: string;
+  prompt_id: string | null;
+  status: PromptJobStatus;
+  // Upstream status string, e.g. "queued" or "running", for display only
+  upstream_status: string | null;
+  result: Record<string, unknown> | null;
+  error: ApiErrorInfo | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Pipelines and oneshot models the server allows; see lib/pipelines.ts
+export interface DaydreamPipelineOption {
+  id: string;
+  name: string;
+  description?: string;
+}
+
+export interface DaydreamPipelineRegistry {
+  pipelines: DaydreamPipelineOption[];
+  models: DaydreamPipelineOption[];
+  defaultPipelineId: string;
+  defaultModelId: string;
+}